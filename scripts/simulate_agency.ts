@@ -1,6 +1,7 @@
 
-import { processAgentThought, AgentContext } from '../src/lib/agent-core';
+import { processAgentReflex, processAgentThought, AgentContext } from '../src/lib/agent-core';
 import { RateLimiter } from '../src/lib/rateLimiter';
+import { MockProvider, setLayerProvider } from '../src/lib/llm-provider';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -17,9 +18,25 @@ if (!process.env.GEMINI_API_KEY) {
     }
 }
 
+// Offline mode: `--offline` swaps every brain layer to the deterministic mock provider.
+const OFFLINE = process.argv.includes('--offline');
+if (OFFLINE) {
+    setLayerProvider('ALL', new MockProvider());
+}
+
+// Cassette: `--record <file>` stores every LLM call, `--replay <file>` serves them back with no network.
+const cassetteFlag = process.argv.find(arg => arg === '--record' || arg === '--replay');
+const cassettePath = cassetteFlag ? process.argv[process.argv.indexOf(cassetteFlag) + 1] : undefined;
+if (cassetteFlag && cassettePath) {
+    process.env.LLM_CASSETTE = cassettePath;
+    process.env.LLM_CASSETTE_MODE = cassetteFlag.slice(2);
+}
+
 async function runSimulation() {
     console.log("=== AGENT SIMULATION REPORT ===");
     console.log(`Time: ${new Date().toISOString()}`);
+    console.log(`Mode: ${OFFLINE ? "OFFLINE (mock provider)" : "LIVE"}`);
+    if (cassettePath) console.log(`Cassette: ${process.env.LLM_CASSETTE_MODE} ${cassettePath}`);
     console.log("--------------------------------");
 
     // 1. Rate Limiter Test
@@ -32,9 +49,10 @@ async function runSimulation() {
     if (limiter.tryConsume()) passed = false; // Should fail on 16th
     console.log(`Result: ${passed ? "PASS" : "FAIL"} (Consumed 15, rejected 16th)`);
 
-    // 2. Scenario: Alone (Expect WANDER)
+    // 2. Scenario: Alone (Expect IDLE / HOLD_POSITION)
     console.log("\n[TEST 2] Scenario: Alone in the dark");
     const contextAlone: AgentContext = {
+        agentId: 'sim-agent-alone',
         position: { x: 0, y: 0, z: 0 },
         nearbyEntities: [],
         currentBehavior: 'IDLE'
@@ -45,15 +63,16 @@ async function runSimulation() {
         console.log("Raw Response 1:", response1);
         const json1 = JSON.parse(response1.replace(/```json/g, '').replace(/```/g, '').trim());
         console.log("Parsed Decision:", json1);
-        if (json1.action === 'WANDER' || json1.action === 'WAIT') console.log("Result: PASS (Valid Action)");
+        if (json1.type === 'IDLE' || json1.type === 'HOLD_POSITION') console.log("Result: PASS (Valid Action)");
         else console.log("Result: PASS (AI chose something else, but valid JSON)");
     } catch (e) {
         console.error("Result: FAIL", e);
     }
 
-    // 3. Scenario: Player Nearby (Expect FOLLOW)
+    // 3. Scenario: Player Nearby (Expect FOLLOW_ENTITY)
     console.log("\n[TEST 3] Scenario: Player Spotted (< 10m)");
     const contextPlayer: AgentContext = {
+        agentId: 'sim-agent-player',
         position: { x: 0, y: 0, z: 0 },
         nearbyEntities: [
             { type: 'PLAYER', id: 'player-01', distance: 5.5, status: 'Active' }
@@ -67,7 +86,7 @@ async function runSimulation() {
         const json2 = JSON.parse(response2.replace(/```json/g, '').replace(/```/g, '').trim());
         console.log("Parsed Decision:", json2);
 
-        if (json2.action === 'FOLLOW' && json2.targetId === 'player-01') {
+        if (json2.type === 'FOLLOW_ENTITY' && json2.params?.target === 'player-01') {
             console.log("Result: PASS (Correctly decided to FOLLOW)");
         } else {
             console.log("Result: WARN (AI did not follow rules strict enough?)");
@@ -76,6 +95,20 @@ async function runSimulation() {
         console.error("Result: FAIL", e);
     }
 
+    // 4. Scenario: Reflex (Expect a confident Limbic WAVE)
+    console.log("\n[TEST 4] Scenario: Reflex to player entering range");
+    try {
+        const reflex = await processAgentReflex(contextPlayer, "PLAYER player-01 came into view (5.5m away)");
+        console.log("Reflex:", reflex);
+        if (reflex.reaction === 'WAVE' && reflex.confidence >= 0.6) {
+            console.log("Result: PASS (Instinct handled it)");
+        } else {
+            console.log("Result: WARN (Reflex would escalate to the Neocortex)");
+        }
+    } catch (e) {
+        console.error("Result: FAIL", e);
+    }
+
     console.log("\n--------------------------------");
     console.log("Simulation Complete.");
 }
@@ -1,16 +1,118 @@
 'use server';
 
-import { NearbyEntity, AgentContext, processAgentThought } from '@/lib/agent-core';
+import { NearbyEntity, AgentContext, DialogueReply, HeardMessage, LimbicResponse, processAgentReflex, processAgentThought, processPlayerMessage } from '@/lib/agent-core';
+import { AgentSessionRegistry } from '@/lib/agent-sessions';
+import { DreamerScheduler } from '@/lib/dreamer';
+import { getContractStats } from '@/lib/llm-schemas';
+import { UsageLedger } from '@/lib/usage-ledger';
+import { ModelRateLimiter } from '@/lib/model-rate-limiter';
+import { RateLimitError } from '@/lib/llm-queue';
+import { RULE_BRAIN } from '@/lib/model-router';
 
-export type { NearbyEntity, AgentContext };
+export type { NearbyEntity, AgentContext, LimbicResponse, DialogueReply, HeardMessage };
+
+/** Limbic reaction; retryAfterMs is set when the provider rate limited us */
+export type ReflexResponse = LimbicResponse & { retryAfterMs?: number };
+
+/** Agent's reply to the player; retryAfterMs is set when the provider rate limited us */
+export type DialogueResponse = DialogueReply & { retryAfterMs?: number };
 
 export async function generateAgentThought(context: AgentContext) {
     try {
         const responseText = await processAgentThought(context);
+        DreamerScheduler.getInstance().checkPressure(context.agentId);
         return responseText;
     } catch (error) {
+        // Errors don't survive the Server Action boundary: tell the client's queue to back off
+        if (error instanceof RateLimitError) {
+            return JSON.stringify({ retryAfterMs: error.retryAfterMs });
+        }
         console.error("Groq API Error:", error);
-        // Fallback response inside the Server Action boundary
-        return JSON.stringify({ action: "WAIT", thought: "My brain hurts (API Error)." });
+        // Fallback response inside the Server Action boundary. Marked as the rule brain,
+        // so the client hands over to its utility brain instead of holding position
+        return JSON.stringify({ type: "HOLD_POSITION", thought: "My brain hurts (API Error).", model: RULE_BRAIN });
+    }
+}
+
+/**
+ * Fast Limbic reaction to a perception event (player enters range, a wave...).
+ * Zero confidence on failure, so the client escalates to the Neocortex instead.
+ */
+export async function generateAgentReflex(context: AgentContext, stimulus: string): Promise<ReflexResponse> {
+    try {
+        const reflex = await processAgentReflex(context, stimulus);
+        DreamerScheduler.getInstance().checkPressure(context.agentId);
+        return reflex;
+    } catch (error) {
+        if (error instanceof RateLimitError) {
+            return { reaction: 'IGNORE', confidence: 0, retryAfterMs: error.retryAfterMs };
+        }
+        console.error("Reflex Error:", error);
+        return { reaction: 'OBSERVE', confidence: 0 };
     }
 }
+
+/**
+ * Something the player typed to an agent. Answered by the agent's
+ * Neocortex with a SOCIAL trigger and the conversation so far.
+ */
+export async function sendPlayerMessage(context: AgentContext, message: string): Promise<DialogueResponse> {
+    try {
+        const reply = await processPlayerMessage(context, message);
+        DreamerScheduler.getInstance().checkPressure(context.agentId);
+        return reply;
+    } catch (error) {
+        if (error instanceof RateLimitError) {
+            return { reply: '', command: null, thought: '', retryAfterMs: error.retryAfterMs };
+        }
+        console.error("Dialogue Error:", error);
+        return { reply: "Sorry, I lost my train of thought.", command: null, thought: "My brain hurts (API Error)." };
+    }
+}
+
+/**
+ * Day/night flip from the TimeSystem. Nightfall starts memory consolidation.
+ */
+export async function notifyDayPhase(isNight: boolean) {
+    DreamerScheduler.getInstance().setNight(isNight);
+}
+
+/**
+ * Wipe an agent's server-side memory (or every agent's when no id is given).
+ */
+export async function resetAgentSession(agentId?: string) {
+    const registry = AgentSessionRegistry.getInstance();
+    if (agentId) {
+        registry.reset(agentId);
+    } else {
+        registry.resetAll();
+    }
+}
+
+/**
+ * Per-model output contract adherence (valid / repaired / failed).
+ */
+export async function getContractReport() {
+    return getContractStats();
+}
+
+/**
+ * Token / latency accounting per agent, layer and model, with budget status.
+ */
+export async function getUsageReport() {
+    return UsageLedger.getInstance().getReport();
+}
+
+/**
+ * Remaining per-model headroom (requests / tokens, per minute and per day).
+ */
+export async function getModelCapacity() {
+    return ModelRateLimiter.getInstance().getAllCapacity();
+}
+
+/**
+ * Change the daily token budget (0 = unlimited), for one agent or everyone.
+ */
+export async function setUsageBudget(dailyTokens: number, agentId?: string) {
+    UsageLedger.getInstance().setBudget({ dailyTokens }, agentId);
+}
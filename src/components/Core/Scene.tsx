@@ -226,8 +226,8 @@ export default function Scene() {
                 />
 
                 <Robot groupRef={robotRef} />
-                <AIRobot playerRef={robotRef} initialPosition={[10, 5, -330]} />
-                <AIRobot playerRef={robotRef} initialPosition={[15, 5, -330]} />
+                <AIRobot playerRef={robotRef} initialPosition={[10, 5, -330]} agentId="agent-01" />
+                <AIRobot playerRef={robotRef} initialPosition={[15, 5, -330]} agentId="agent-02" />
                 <YukaSystem />
                 <LevelBoundaries />
                 <ZoneController robotRef={robotRef} />
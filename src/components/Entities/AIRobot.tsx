@@ -5,7 +5,17 @@ import { Html } from '@react-three/drei';
 import { useYukaAI } from './useYukaAI';
 import { createMaterials } from '../Systems/Materials';
 import { Joints } from './useRobotController';
-import { getActiveModel } from '@/lib/groq';
+import { getPersona } from '@/lib/personas';
+import { HEARING_RANGE } from '../Systems/AgentMessageBus';
+import AIManager from '../Systems/AIManager';
+import { describeCommand } from '@/lib/capabilities';
+import type { QueuedCommand, QueueSnapshot } from '@/lib/capability-engine';
+
+const BARK_DURATION_MS = 4000; // How long a Limbic bark stays on screen
+const SPEECH_DURATION_MS = 8000; // Spoken lines stay longer, so the player can catch up on a conversation
+
+/** e.g. "HOLD_POSITION · PLAYER" */
+const orderLabel = (entry: QueuedCommand) => `${describeCommand(entry.command)} · ${entry.source}`;
 
 export default function AIRobot({
     playerRef,
@@ -19,12 +29,17 @@ export default function AIRobot({
     const groupRef = useRef<THREE.Group>(null);
     const joints = useRef<any>({});
     const { vehicle, brain } = useYukaAI(groupRef, playerRef, joints, agentId);
+    const persona = useMemo(() => getPersona(agentId), [agentId]);
 
     // HUD State (for reactive updates)
     const [hudState, setHudState] = useState({
         thought: 'Initializing...',
         isThinking: false,
-        model: 'Loading...'
+        model: 'Loading...',
+        bark: null as string | null,
+        speech: null as { text: string; to: string | null } | null,
+        orders: null as QueueSnapshot | null,
+        carrying: false
     });
 
     const [distanceToPlayer, setDistanceToPlayer] = useState(100);
@@ -36,12 +51,16 @@ export default function AIRobot({
                 setHudState({
                     thought: brain.state.thought,
                     isThinking: brain.state.isThinking,
-                    model: getActiveModel().split('/').pop() || 'Unknown'
+                    model: brain.state.activeBrain === 'UTILITY' ? 'Utility AI (offline)' : brain.state.model?.split('/').pop() || 'No thought yet',
+                    bark: Date.now() - brain.state.barkTime < BARK_DURATION_MS ? brain.state.bark : null,
+                    speech: brain.state.speech && Date.now() - brain.state.speech.time < SPEECH_DURATION_MS ? brain.state.speech : null,
+                    orders: AIManager.getInstance().getCapabilityEngine(agentId)?.getQueue() ?? null,
+                    carrying: !!AIManager.getInstance().getBoxSystem()?.getCarried(agentId)
                 });
             }
         }, 500);
         return () => clearInterval(interval);
-    }, [brain]);
+    }, [brain, agentId]);
 
     // Check Distance (Throttled via simple frame skip or just ref updating)
     // Actually, setting state in useFrame is bad.
@@ -59,6 +78,7 @@ export default function AIRobot({
     }, [playerRef]);
 
     const showDetails = distanceToPlayer < 15; // Show thoughts when < 15m
+    const inEarshot = distanceToPlayer < HEARING_RANGE; // Overhear what agents say
 
     const { bodyMat, jointMat, glowMat } = useMemo(() => {
         const mats = createMaterials();
@@ -67,7 +87,7 @@ export default function AIRobot({
     }, []);
 
     return (
-        <group ref={groupRef} position={initialPosition}>
+        <group ref={groupRef} position={initialPosition} userData={{ id: agentId }}>
             {/* Floating HUD above head */}
             <Html
                 position={[0, 8, 0]}
@@ -86,6 +106,47 @@ export default function AIRobot({
                     alignItems: 'center',
                     gap: '4px',
                 }}>
+                    {/* 0. Speech Bubble (Limbic bark, visible at any distance) */}
+                    {hudState.bark && (
+                        <div style={{
+                            background: '#fff',
+                            color: '#111',
+                            padding: '6px 12px',
+                            borderRadius: '14px',
+                            fontFamily: 'sans-serif',
+                            fontSize: '15px',
+                            fontWeight: 'bold',
+                            boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+                            whiteSpace: 'nowrap',
+                            marginBottom: '4px'
+                        }}>
+                            {hudState.bark}
+                        </div>
+                    )}
+
+                    {/* 0b. Spoken line (to other agents), only overheard within earshot */}
+                    {hudState.speech && inEarshot && (
+                        <div style={{
+                            background: '#fff',
+                            color: '#111',
+                            padding: '6px 12px',
+                            borderRadius: '14px',
+                            fontFamily: 'sans-serif',
+                            fontSize: '14px',
+                            boxShadow: '0 2px 8px rgba(0,0,0,0.3)',
+                            maxWidth: '260px',
+                            textAlign: 'center',
+                            marginBottom: '4px'
+                        }}>
+                            {hudState.speech.to && (
+                                <div style={{ fontSize: '11px', color: '#666', marginBottom: '2px' }}>
+                                    to {getPersona(hudState.speech.to).name}
+                                </div>
+                            )}
+                            {hudState.speech.text}
+                        </div>
+                    )}
+
                     {/* 1. Name Badge (Always Visible, larger) */}
                     <div style={{
                         background: 'rgba(0, 0, 0, 0.6)',
@@ -103,7 +164,8 @@ export default function AIRobot({
                         alignItems: 'center',
                         gap: '8px'
                     }}>
-                        <span>{agentId}</span>
+                        <span>{persona.name}</span>
+                        <span style={{ fontSize: '11px', fontWeight: 'normal', color: '#bbb' }}>{persona.role}</span>
                         <span style={{
                             background: '#0070f3',
                             color: 'white',
@@ -176,6 +238,34 @@ export default function AIRobot({
                         }}>
                             "{hudState.thought}"
                         </div>
+
+                        {/* Command Queue */}
+                        {hudState.orders?.active && (
+                            <div style={{
+                                marginTop: '8px',
+                                fontSize: '11px',
+                                color: '#aaa',
+                                fontFamily: 'monospace'
+                            }}>
+                                <div style={{ color: hudState.orders.holding ? '#ffcc00' : hudState.orders.running ? '#fff' : '#777' }}>
+                                    ▶ {orderLabel(hudState.orders.active)}{hudState.orders.holding ? ' (held)' : hudState.orders.running ? '' : ' (done)'}
+                                </div>
+                                {hudState.orders.pending.map((entry, i) => (
+                                    <div key={entry.id} style={{ color: '#777' }}>{i + 1}. {orderLabel(entry)}</div>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Persona Traits */}
+                        <div style={{
+                            marginTop: '8px',
+                            fontSize: '10px',
+                            color: '#777',
+                            textTransform: 'uppercase',
+                            letterSpacing: '0.5px'
+                        }}>
+                            {persona.traits.join(' · ')}
+                        </div>
                     </div>
                 </div>
             </Html>
@@ -205,6 +295,14 @@ export default function AIRobot({
                         </mesh>
                     </group>
 
+                    {/* Carried box (CARRY), held in front of the chest */}
+                    {hudState.carrying && (
+                        <mesh position={[0, 1.6, 1.9]} castShadow>
+                            <boxGeometry args={[2, 2, 2]} />
+                            <meshStandardMaterial color="orange" />
+                        </mesh>
+                    )}
+
                     {/* Arms */}
                     <Arm side="left" joints={joints} bodyMat={bodyMat} jointMat={jointMat} />
                     <Arm side="right" joints={joints} bodyMat={bodyMat} jointMat={jointMat} />
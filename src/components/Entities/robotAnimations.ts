@@ -0,0 +1,113 @@
+import * as THREE from 'three';
+import type { Joints } from './useRobotController';
+
+// Procedural gestures shared by the player robot (useRobotController) and AI robots (useYukaAI)
+
+export const WAVE_DURATION = 2.5; // s, lift + wave
+
+/**
+ * Right-arm wave: lift over 0.4s, then swing. Left arm and legs relax.
+ * `waveTime` is seconds since the wave started.
+ */
+export function animateWave(j: Joints, waveTime: number, lerpFactor: number) {
+    if (!j.rightArm || !j.leftArm || !j.leftHip || !j.rightHip) return;
+
+    const waveSpeed = 12;
+    const liftDuration = 0.4;
+    const liftProgress = Math.min(waveTime / liftDuration, 1);
+    const targetShoulderZ = -2.8;
+    const targetElbowZ = -0.8;
+    const easedLift = 1 - Math.pow(1 - liftProgress, 3);
+
+    const currentShoulderZ = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, targetShoulderZ, easedLift);
+    const currentElbowZ = THREE.MathUtils.lerp(j.rightArm.elbow.rotation.z, targetElbowZ, easedLift);
+
+    if (liftProgress >= 1) {
+        const wave = Math.sin((waveTime - liftDuration) * waveSpeed) * 0.4;
+        j.rightArm.shoulder.rotation.z = targetShoulderZ + wave;
+        j.rightArm.elbow.rotation.z = targetElbowZ + wave * 0.2;
+    } else {
+        j.rightArm.shoulder.rotation.z = currentShoulderZ;
+        j.rightArm.elbow.rotation.z = currentElbowZ;
+    }
+
+    j.leftArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.x, 0, lerpFactor);
+    j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, 0.2, lerpFactor);
+    j.leftHip.rotation.x = THREE.MathUtils.lerp(j.leftHip.rotation.x, 0, lerpFactor);
+    j.rightHip.rotation.x = THREE.MathUtils.lerp(j.rightHip.rotation.x, 0, lerpFactor);
+    j.leftHip.rotation.z = THREE.MathUtils.lerp(j.leftHip.rotation.z, 0, lerpFactor);
+    j.rightHip.rotation.z = THREE.MathUtils.lerp(j.rightHip.rotation.z, 0, lerpFactor);
+}
+
+/** Seated "vibing" pose: hips down, legs bent forward, arms resting, head bobbing. `time` drives the bob. */
+export function animateSit(j: Joints, time: number, lerpFactor: number = 0.1) {
+    if (!j.hips || !j.torso || !j.neck || !j.leftArm || !j.rightArm || !j.leftHip || !j.rightHip || !j.leftKnee || !j.rightKnee) return;
+
+    j.hips.position.y = THREE.MathUtils.lerp(j.hips.position.y, 1.9, lerpFactor);
+    j.hips.position.z = THREE.MathUtils.lerp(j.hips.position.z, 0.0, lerpFactor);
+    j.torso.rotation.x = THREE.MathUtils.lerp(j.torso.rotation.x, -0.3, lerpFactor);
+    j.neck.rotation.x = Math.sin(time * 8) * 0.05;
+    j.neck.rotation.y = Math.sin(time * 2) * 0.1;
+    j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, 0.5, lerpFactor);
+    j.leftArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.y, -0.5, lerpFactor);
+    j.rightArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, -0.5, lerpFactor);
+    j.rightArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.y, 0.5, lerpFactor);
+    j.leftHip.rotation.x = THREE.MathUtils.lerp(j.leftHip.rotation.x, -1.6, lerpFactor);
+    j.rightHip.rotation.x = THREE.MathUtils.lerp(j.rightHip.rotation.x, -1.6, lerpFactor);
+    j.leftKnee.rotation.x = THREE.MathUtils.lerp(j.leftKnee.rotation.x, 1.6, lerpFactor);
+    j.rightKnee.rotation.x = THREE.MathUtils.lerp(j.rightKnee.rotation.x, 1.6, lerpFactor);
+    j.leftHip.rotation.z = THREE.MathUtils.lerp(j.leftHip.rotation.z, -0.15, lerpFactor);
+    j.rightHip.rotation.z = THREE.MathUtils.lerp(j.rightHip.rotation.z, 0.15, lerpFactor);
+}
+
+/** Both arms forward, holding a box in front of the chest (layered over walking / idling) */
+export function animateCarry(j: Joints, lerpFactor: number) {
+    if (!j.leftArm || !j.rightArm) return;
+
+    j.leftArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.x, -1.3, lerpFactor);
+    j.rightArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.x, -1.3, lerpFactor);
+    j.leftArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.y, 0, lerpFactor);
+    j.rightArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.y, 0, lerpFactor);
+    j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, 0.15, lerpFactor);
+    j.rightArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, -0.15, lerpFactor);
+    j.leftArm.elbow.rotation.z = THREE.MathUtils.lerp(j.leftArm.elbow.rotation.z, 0, lerpFactor);
+    j.rightArm.elbow.rotation.z = THREE.MathUtils.lerp(j.rightArm.elbow.rotation.z, 0, lerpFactor);
+}
+
+/**
+ * Turn head and torso toward something `yaw` radians off the body's facing
+ * (head takes most of it; both clamped, the body itself doesn't turn).
+ */
+export function animateLookAt(j: Joints, yaw: number, lerpFactor: number) {
+    if (!j.neck || !j.torso) return;
+
+    const clamp = THREE.MathUtils.clamp;
+    j.neck.rotation.y = THREE.MathUtils.lerp(j.neck.rotation.y, clamp(yaw * 0.6, -0.9, 0.9), lerpFactor);
+    j.torso.rotation.y = THREE.MathUtils.lerp(j.torso.rotation.y, clamp(yaw * 0.4, -0.5, 0.5), lerpFactor);
+}
+
+/**
+ * Talking: one hand at a time gestures along with the words, the other rests
+ * half raised; the head nods now and then (layered over idling).
+ */
+export function animateTalk(j: Joints, time: number, lerpFactor: number) {
+    if (!j.leftArm || !j.rightArm || !j.neck) return;
+
+    const beat = Math.sin(time * 3);
+    const rightTalks = Math.sin(time * 0.7) > 0;
+    const [active, resting] = rightTalks ? [j.rightArm, j.leftArm] : [j.leftArm, j.rightArm];
+    const side = rightTalks ? -1 : 1; // Elbows bend toward -z on the right, +z on the left
+
+    active.shoulder.rotation.x = THREE.MathUtils.lerp(active.shoulder.rotation.x, -0.6 + beat * 0.15, lerpFactor);
+    active.elbow.rotation.z = THREE.MathUtils.lerp(active.elbow.rotation.z, side * (1.2 + beat * 0.2), lerpFactor);
+    resting.shoulder.rotation.x = THREE.MathUtils.lerp(resting.shoulder.rotation.x, -0.2, lerpFactor);
+    resting.elbow.rotation.z = THREE.MathUtils.lerp(resting.elbow.rotation.z, -side * 0.4, lerpFactor);
+    j.neck.rotation.x = THREE.MathUtils.lerp(j.neck.rotation.x, Math.max(0, Math.sin(time * 2.2)) * 0.12, lerpFactor);
+}
+
+/** Alert: the head sweeps from side to side; `weight` (0..1) blends it in and out */
+export function animateScan(j: Joints, time: number, weight: number, lerpFactor: number) {
+    if (!j.neck) return;
+
+    j.neck.rotation.y = THREE.MathUtils.lerp(j.neck.rotation.y, Math.sin(time * 1.3) * 0.7 * weight, lerpFactor);
+}
@@ -5,6 +5,7 @@ import { useGameStore } from '@/store/gameStore';
 import { useInteractionStore } from '@/store/interactionStore';
 import AIManager from '../Systems/AIManager';
 import { WorldRegistry } from '@/lib/yuka-oracle';
+import { animateSit, animateWave, WAVE_DURATION } from './robotAnimations';
 
 export interface Joints {
     hips?: THREE.Group;
@@ -103,6 +104,7 @@ export function useRobotController(groupRef: React.RefObject<THREE.Group | null>
     // Sitting State
     const sitTargetPos = useRef<THREE.Vector3 | null>(null);
     const sitTargetRot = useRef<THREE.Quaternion | null>(null);
+    const sitSeatId = useRef<string | null>(null); // Reserved, so agents don't sit on us
 
 
     useEffect(() => {
@@ -117,6 +119,8 @@ export function useRobotController(groupRef: React.RefObject<THREE.Group | null>
 
                 if (isSitting) {
                     setSitting(false);
+                    if (sitSeatId.current) AIManager.getInstance().releaseReservation(sitSeatId.current, 'player-01');
+                    sitSeatId.current = null;
                     sitTargetPos.current = null;
                     sitTargetRot.current = null;
                     state.current.velocity.set(0, 5, 0);
@@ -169,7 +173,7 @@ export function useRobotController(groupRef: React.RefObject<THREE.Group | null>
                 let minDist = 3.0;
 
                 for (const item of interactables) {
-                    if (item.type === 'sofa') {
+                    if (item.type === 'sofa' && !AIManager.getInstance().getReservation(item.id)) {
                         const dist = groupRef.current.position.distanceTo(item.position);
                         if (dist < minDist) {
                             minDist = dist;
@@ -180,6 +184,8 @@ export function useRobotController(groupRef: React.RefObject<THREE.Group | null>
 
                 if (nearest) {
                     setSitting(true);
+                    AIManager.getInstance().reserve(nearest.id, 'player-01');
+                    sitSeatId.current = nearest.id;
                     sitTargetPos.current = nearest.position.clone();
                     sitTargetRot.current = nearest.rotation.clone();
                 } else {
@@ -453,54 +459,15 @@ export function useRobotController(groupRef: React.RefObject<THREE.Group | null>
 
         if (isSitting) {
             // Vibing Pose
-            const t = stateRoot.clock.getElapsedTime();
-            j.hips.position.y = THREE.MathUtils.lerp(j.hips.position.y, 1.9, 0.1);
-            j.hips.position.z = THREE.MathUtils.lerp(j.hips.position.z, 0.0, 0.1);
-            j.torso.rotation.x = THREE.MathUtils.lerp(j.torso.rotation.x, -0.3, 0.1);
-            j.neck.rotation.x = Math.sin(t * 8) * 0.05;
-            j.neck.rotation.y = Math.sin(t * 2) * 0.1;
-            j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, 0.5, 0.1);
-            j.leftArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.y, -0.5, 0.1);
-            j.rightArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, -0.5, 0.1);
-            j.rightArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.y, 0.5, 0.1);
-            j.leftHip.rotation.x = THREE.MathUtils.lerp(j.leftHip.rotation.x, -1.6, 0.1);
-            j.rightHip.rotation.x = THREE.MathUtils.lerp(j.rightHip.rotation.x, -1.6, 0.1);
-            j.leftKnee.rotation.x = THREE.MathUtils.lerp(j.leftKnee.rotation.x, 1.6, 0.1);
-            j.rightKnee.rotation.x = THREE.MathUtils.lerp(j.rightKnee.rotation.x, 1.6, 0.1);
-            j.leftHip.rotation.z = THREE.MathUtils.lerp(j.leftHip.rotation.z, -0.15, 0.1);
-            j.rightHip.rotation.z = THREE.MathUtils.lerp(j.rightHip.rotation.z, 0.15, 0.1);
+            animateSit(j, stateRoot.clock.getElapsedTime());
             return;
         }
 
         if (s.isWaving) {
             s.waveTimer += dt;
-            const waveSpeed = 12;
-            const liftDuration = 0.4;
-            const liftProgress = Math.min(s.waveTimer / liftDuration, 1);
-            const targetShoulderZ = -2.8;
-            const targetElbowZ = -0.8;
-            const easedLift = 1 - Math.pow(1 - liftProgress, 3);
-
-            const currentShoulderZ = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, targetShoulderZ, easedLift);
-            const currentElbowZ = THREE.MathUtils.lerp(j.rightArm.elbow.rotation.z, targetElbowZ, easedLift);
-
-            if (liftProgress >= 1) {
-                const wave = Math.sin((s.waveTimer - liftDuration) * waveSpeed) * 0.4;
-                j.rightArm.shoulder.rotation.z = targetShoulderZ + wave;
-                j.rightArm.elbow.rotation.z = targetElbowZ + wave * 0.2;
-            } else {
-                j.rightArm.shoulder.rotation.z = currentShoulderZ;
-                j.rightArm.elbow.rotation.z = currentElbowZ;
-            }
-
-            j.leftArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.x, 0, lerpFactor);
-            j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, 0.2, lerpFactor);
-            j.leftHip.rotation.x = THREE.MathUtils.lerp(j.leftHip.rotation.x, 0, lerpFactor);
-            j.rightHip.rotation.x = THREE.MathUtils.lerp(j.rightHip.rotation.x, 0, lerpFactor);
-            j.leftHip.rotation.z = THREE.MathUtils.lerp(j.leftHip.rotation.z, 0, lerpFactor);
-            j.rightHip.rotation.z = THREE.MathUtils.lerp(j.rightHip.rotation.z, 0, lerpFactor);
+            animateWave(j, s.waveTimer, lerpFactor);
 
-            if (s.waveTimer > 2.5) {
+            if (s.waveTimer > WAVE_DURATION) {
                 s.isWaving = false;
             }
         } else if (s.posture === 'SWIM') {
@@ -157,7 +157,7 @@ export function useWorkerAI(
                 vehicle.steering.behaviors = [];
                 vehicle.velocity.set(0, 0, 0);
 
-                system.placeBox(targetBoxRef.current.position);
+                system.placeBox(targetBoxRef.current.position, id);
                 setHoldingBox(null);
                 targetBoxRef.current = null;
 
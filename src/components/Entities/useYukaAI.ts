@@ -1,12 +1,20 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import * as YUKA from 'yuka';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import AIManager from '../Systems/AIManager';
-import { useGameStore } from '@/store/gameStore';
+import { getAllowedCommands, resolveModelSelection, useGameStore } from '@/store/gameStore';
+import { useChatStore } from '@/store/chatStore';
 import { ClientBrain } from '../Systems/ClientBrain';
+import type { AgentMessage } from '../Systems/AgentMessageBus';
+import { PerceptionSensor } from '../Systems/PerceptionSensor';
 import { NearbyEntity } from '@/app/actions';
-import { CapabilityEngine } from '@/lib/capability-engine';
+import { CapabilityEngine, type Posture } from '@/lib/capability-engine';
+import type { AgentPose } from '@/lib/capability-registry';
+import type { EmotionalState } from '@/lib/context-mixer';
+import { WorldRegistry } from '@/lib/yuka-oracle';
+import { getPersona } from '@/lib/personas';
+import { animateCarry, animateLookAt, animateScan, animateSit, animateTalk, animateWave } from './robotAnimations';
 
 export function useYukaAI(
     groupRef: React.RefObject<THREE.Group | null>,
@@ -22,11 +30,19 @@ export function useYukaAI(
 
     // Engine & Brain
     const capabilityEngineRef = useRef<CapabilityEngine | null>(null);
-    const brainRef = useRef(new ClientBrain());
+    const [brain] = useState(() => new ClientBrain(agentId)); // Created once, not on every render
     const brainIntervalRef = useRef(300 + Math.floor(Math.random() * 100)); // Stagger updates
+    const [sensor] = useState(() => new PerceptionSensor(agentId));
+    const SENSE_INTERVAL = 10; // Frames between reflex checks
+
+    const replanRef = useRef(false); // A command failed: think again right away
+    const lastReplanRef = useRef(0);
+    const REPLAN_COOLDOWN_MS = 5000; // Don't let a brain that keeps picking a failing command spin
 
     const frameRef = useRef(0);
     const walkTime = useRef(0);
+    const gaitRef = useRef<GaitBlend>({ crouch: 0, alert: 0 });
+    const TALK_GESTURE_MS = 3000; // Hands keep moving this long after saying something
 
     // Refs for optimization
     const raycasterRef = useRef(new THREE.Raycaster());
@@ -56,18 +72,35 @@ export function useYukaAI(
 
         // 2. Initialize Capability Engine (The Tactician)
         // This handles all behaviors internally (Seek, Arrive, etc.)
-        const engine = new CapabilityEngine(vehicle);
+        const engine = new CapabilityEngine(vehicle, agentId);
         capabilityEngineRef.current = engine;
 
+        // Command outcomes flow back to the brain; failures trigger a new plan
+        const unsubscribe = engine.onEvent(event => {
+            brain.recordOutcome(event);
+            if (event.status === 'FAILED') replanRef.current = true;
+        });
+
         // Register capability engine for direct command injection
         aiManager.registerCapabilityEngine(agentId, engine);
+        aiManager.registerBrain(agentId, brain);
+        aiManager.messageBus.register(agentId);
+        getPersona(agentId).squads.forEach(group => aiManager.joinSquad(agentId, group));
 
         // 3. Register with Manager
         vehicleRef.current = vehicle;
         aiManager.addEntity(vehicle);
 
+        // 4. Register in WorldRegistry so the Oracle (and other agents) can locate us
+        WorldRegistry.getInstance().registerDynamic(agentId, () => vehicle.position as unknown as THREE.Vector3);
+
         return () => {
+            unsubscribe();
+            aiManager.unregisterAgent(agentId);
             aiManager.removeEntity(vehicle);
+            aiManager.messageBus.unregister(agentId);
+            aiManager.leaveSquads(agentId);
+            WorldRegistry.getInstance().unregister(agentId);
         };
     }, []); // Run once on mount
 
@@ -79,9 +112,8 @@ export function useYukaAI(
         const dt = Math.min(delta, 0.1);
         frameRef.current++;
 
-        // --- BRAIN UPDATE (The Strategist) ---
-        if (aiSettings.enabled && frameRef.current % brainIntervalRef.current === 0) {
-            // Construct Perception
+        // Construct Perception
+        const perceiveNearby = (): NearbyEntity[] => {
             const nearbyEntities: NearbyEntity[] = [];
             if (playerRef.current) {
                 const dist = vehicle.position.distanceTo(playerRef.current.position as unknown as YUKA.Vector3);
@@ -91,32 +123,92 @@ export function useYukaAI(
                     });
                 }
             }
+            return nearbyEntities;
+        };
 
-            // Consult LLM
-            brainRef.current.update(
+        // Consult LLM (Neocortex)
+        const think = (stimulus?: string, inbox?: AgentMessage[]) => {
+            brain.update(
                 vehicle.position as unknown as THREE.Vector3,
-                nearbyEntities,
+                perceiveNearby(),
                 engine.currentAction, // Pass current capability as 'Behavior'
-                aiSettings.allowedCommands,
-                aiSettings.llmEnabled
+                getAllowedCommands(aiSettings),
+                aiSettings.llmEnabled,
+                stimulus,
+                resolveModelSelection(aiSettings, agentId),
+                inbox
             ).then(command => {
                 if (command) {
                     // Send Order to Tactician
                     engine.execute(command);
                 }
             });
+        };
+
+        // --- REFLEXES (The Limbic System) ---
+        if (aiSettings.enabled && frameRef.current % SENSE_INTERVAL === 0) {
+            const event = sensor.sense(vehicle.position as unknown as THREE.Vector3);
+            if (event) {
+                brain.react(
+                    event,
+                    vehicle.position as unknown as THREE.Vector3,
+                    perceiveNearby(),
+                    engine.currentAction,
+                    getAllowedCommands(aiSettings),
+                    aiSettings.llmEnabled,
+                    resolveModelSelection(aiSettings, agentId)
+                ).then(reflex => {
+                    if (!reflex) return;
+                    if (reflex.command) engine.execute(reflex.command);
+                    // Too uncertain for instinct: think it through now
+                    if (reflex.escalate) think(event.description);
+                });
+            }
+        }
+
+        // --- DIALOGUE (Player typed to us) ---
+        if (frameRef.current % SENSE_INTERVAL === 0) {
+            const chat = useChatStore.getState();
+            const message = chat.takePending(agentId);
+            if (message) {
+                brain.chat(
+                    message,
+                    vehicle.position as unknown as THREE.Vector3,
+                    perceiveNearby(),
+                    engine.currentAction,
+                    getAllowedCommands(aiSettings),
+                    aiSettings.llmEnabled,
+                    resolveModelSelection(aiSettings, agentId)
+                ).then(reply => {
+                    chat.addReply(agentId, reply?.reply ?? '');
+                    if (reply?.command && aiSettings.enabled) engine.execute(reply.command);
+                });
+            }
+        }
+
+        // --- A2A (Other agents talking to us, once it's our turn) ---
+        if (aiSettings.enabled && frameRef.current % SENSE_INTERVAL === 0) {
+            const inbox = aiManager.messageBus.take(agentId);
+            if (inbox.length > 0) think(undefined, inbox);
+        }
+
+        // --- BRAIN UPDATE (The Strategist) ---
+        const replan = replanRef.current && Date.now() - lastReplanRef.current > REPLAN_COOLDOWN_MS;
+        if (aiSettings.enabled && (replan || frameRef.current % brainIntervalRef.current === 0)) {
+            if (replan) lastReplanRef.current = Date.now();
+            replanRef.current = false;
+            think();
         } else if (!aiSettings.enabled) {
-            // Force Idle if disabled
+            // Force Idle if disabled (drops queued and held orders too)
             if (engine.currentAction !== 'IDLE') {
-                engine.execute({ type: 'IDLE', posture: 'WALK' });
+                engine.stop();
             }
         }
 
         // --- PHYSICS & ANIMATION ---
 
         // Update Tactical Engine (e.g. tracking moving targets)
-        const playerPos = playerRef.current ? playerRef.current.position : undefined;
-        engine.update(dt, playerPos);
+        engine.update(dt);
 
         const WATER_SURFACE_Y = 0.0;
         // AI enters swim mode when waist deep
@@ -153,27 +245,78 @@ export function useYukaAI(
         }
 
         // 2. Animation Blending (Procedural)
-        animateProcedural(vehicle, joints, walkTime, dt, inWater, state.clock.getElapsedTime());
+        const lookTarget = engine.getLookTarget();
+        const brainState = brain.state;
+        const spokeAt = Math.max(brainState.barkTime, brainState.speech?.time ?? 0);
+        animateProcedural(vehicle, joints, walkTime, gaitRef.current, dt, inWater, state.clock.getElapsedTime(), {
+            waveTime: engine.getGestureTime(),
+            pose: engine.getPose(),
+            lookYaw: lookTarget ? yawTo(vehicle, lookTarget) : null,
+            carrying: !!aiManager.getBoxSystem()?.getCarried(agentId),
+            posture: engine.getPosture(),
+            talking: engine.currentAction === 'SOCIAL_INTERACT' || Date.now() - spokeAt < TALK_GESTURE_MS,
+            mood: brain.getMood()
+        });
     });
 
-    return { vehicle: vehicleRef.current, brain: brainRef.current };
+    return { vehicle: vehicleRef.current, brain };
 }
 
 // --- PROCEDURAL ANIMATION ---
+
+/** What the current command asks of the body, on top of locomotion */
+interface BodyActions {
+    waveTime?: number | null;   // s into GESTURE_WAVE
+    pose?: AgentPose | null;
+    lookYaw?: number | null;    // rad from the body's facing to the LOOK_AT target
+    carrying?: boolean;
+    posture?: Posture;
+    talking?: boolean;          // In a conversation or just said something
+    mood?: EmotionalState;
+}
+
+/** Posture weights (0..1), eased toward the current posture so stances blend instead of snapping */
+interface GaitBlend {
+    crouch: number;             // SNEAK
+    alert: number;              // ALERT
+}
+
+const POSTURE_BLEND = 0.08;     // Per frame, like lerpFactor
+const CROUCH_DROP = 0.7;        // Hip height lost fully crouched (3.5 -> 2.8, as the player's crouch)
+const ALERT_DROP = 0.2;         // Knees slightly bent when alert
+
+/** Signed angle (rad) from the vehicle's facing to a point, in the ground plane */
+function yawTo(vehicle: YUKA.Vehicle, target: THREE.Vector3): number {
+    const facing = new THREE.Euler().setFromQuaternion(vehicle.rotation as unknown as THREE.Quaternion, 'YXZ').y;
+    const toTarget = Math.atan2(target.x - vehicle.position.x, target.z - vehicle.position.z);
+    return Math.atan2(Math.sin(toTarget - facing), Math.cos(toTarget - facing));
+}
+
 function animateProcedural(
     vehicle: YUKA.Vehicle,
     joints: React.MutableRefObject<any>,
     walkTime: React.MutableRefObject<number>,
+    gait: GaitBlend,
     dt: number,
     inWater: boolean,
-    totalTime: number
+    totalTime: number,
+    actions: BodyActions = {}
 ) {
+    const { waveTime = null, pose = null, lookYaw = null, carrying = false, posture = 'WALK', talking = false, mood } = actions;
     const speed = vehicle.velocity.length();
     const j = joints.current;
     const lerpFactor = 0.1; // For smoothing transitions
 
     if (!j.hips) return;
 
+    gait.crouch = THREE.MathUtils.lerp(gait.crouch, posture === 'SNEAK' ? 1 : 0, POSTURE_BLEND);
+    gait.alert = THREE.MathUtils.lerp(gait.alert, posture === 'ALERT' ? 1 : 0, POSTURE_BLEND);
+    const crouch = gait.crouch;
+    const alert = gait.alert;
+    // Arms held in (sneaking) or ready (alert) instead of swinging / hanging
+    const guard = Math.max(crouch, alert);
+    const standY = 3.5 - crouch * CROUCH_DROP - alert * ALERT_DROP;
+
     if (inWater) {
         // --- SWIMMING ANIMATION (Ported from Player) ---
         walkTime.current += dt * 6.0;
@@ -208,17 +351,25 @@ function animateProcedural(
         j.hips.rotation.y = THREE.MathUtils.lerp(j.hips.rotation.y, 0, lerpFactor);
         j.torso.rotation.y = THREE.MathUtils.lerp(j.torso.rotation.y, 0, lerpFactor);
 
+    } else if (pose === 'SITTING') {
+        // --- SEATED (SIT_ON) ---
+        walkTime.current += dt;
+        animateSit(j, totalTime, lerpFactor);
+
     } else if (speed > 0.1) {
-        // --- MOVING (WALK/RUN) ---
-        const isRunning = speed > 6.0;
-        walkTime.current += dt * (isRunning ? 13.0 : 9.0);
+        // --- MOVING (WALK / RUN / SNEAK / ALERT) ---
+        // The posture decides the gait; speed alone is the fallback (e.g. FOLLOW catching up)
+        const isRunning = posture === 'RUN' || speed > 6.0;
+        walkTime.current += dt * (isRunning ? 13.0 : THREE.MathUtils.lerp(9.0, 6.0, crouch));
 
-        const legAmp = isRunning ? 1.0 : 0.6;
-        const kneeAmp = isRunning ? 0.6 : 0.3;
+        const legAmp = isRunning ? 1.0 : 0.6 - crouch * 0.3;
+        const kneeAmp = isRunning ? 0.6 : 0.3 - crouch * 0.1;
+        const kneeBend = 0.2 + crouch * 0.6 + alert * 0.2;
+        const crouchHipOffset = -0.5 * crouch;
 
         // Hips Bob
-        const bobScale = isRunning ? 0.35 : 0.15;
-        j.hips.position.y = THREE.MathUtils.lerp(j.hips.position.y, 3.5 + Math.sin(walkTime.current * 2) * bobScale, lerpFactor);
+        const bobScale = isRunning ? 0.35 : 0.15 * (1 - crouch * 0.5);
+        j.hips.position.y = THREE.MathUtils.lerp(j.hips.position.y, standY + Math.sin(walkTime.current * 2) * bobScale, lerpFactor);
 
         // Reset Swim Rotations
         j.hips.rotation.x = THREE.MathUtils.lerp(j.hips.rotation.x, 0, lerpFactor);
@@ -234,24 +385,24 @@ function animateProcedural(
         j.torso.rotation.y = Math.sin(walkTime.current) * torsoYawAmp;
 
         // Legs
-        j.leftHip.rotation.x = Math.sin(walkTime.current) * legAmp;
-        j.leftKnee.rotation.x = Math.abs(Math.cos(walkTime.current)) * kneeAmp + 0.2;
+        j.leftHip.rotation.x = Math.sin(walkTime.current) * legAmp + crouchHipOffset;
+        j.leftKnee.rotation.x = Math.abs(Math.cos(walkTime.current)) * kneeAmp + kneeBend;
 
-        j.rightHip.rotation.x = Math.sin(walkTime.current + Math.PI) * legAmp;
-        j.rightKnee.rotation.x = Math.abs(Math.cos(walkTime.current + Math.PI)) * kneeAmp + 0.2;
+        j.rightHip.rotation.x = Math.sin(walkTime.current + Math.PI) * legAmp + crouchHipOffset;
+        j.rightKnee.rotation.x = Math.abs(Math.cos(walkTime.current + Math.PI)) * kneeAmp + kneeBend;
 
-        // Arms (Runner Arms)
+        // Arms (Runner Arms, pulled in when sneaking / held ready when alert)
         const armAmp = isRunning ? 1.2 : 0.6;
-        const armTuck = isRunning ? 0.05 : 0.2;
+        const armTuck = THREE.MathUtils.lerp(isRunning ? 0.05 : 0.2, 0.8, crouch);
 
-        j.leftArm.shoulder.rotation.x = Math.sin(walkTime.current + Math.PI) * armAmp;
-        j.rightArm.shoulder.rotation.x = Math.sin(walkTime.current) * armAmp;
+        j.leftArm.shoulder.rotation.x = THREE.MathUtils.lerp(Math.sin(walkTime.current + Math.PI) * armAmp, -0.5, guard);
+        j.rightArm.shoulder.rotation.x = THREE.MathUtils.lerp(Math.sin(walkTime.current) * armAmp, -0.5, guard);
         j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, armTuck, lerpFactor);
         j.rightArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, -armTuck, lerpFactor);
 
         // Dynamic Yaw
-        const yawAmp = isRunning ? 0.8 : 0.1;
-        const yawBias = isRunning ? -0.5 : 0;
+        const yawAmp = (isRunning ? 0.8 : 0.1) * (1 - guard);
+        const yawBias = isRunning ? -0.5 * (1 - guard) : 0;
 
         const leftSwing = Math.sin(walkTime.current + Math.PI);
         const leftDynamicYaw = (leftSwing * 0.5 + 0.5) * -yawAmp + yawBias;
@@ -261,31 +412,60 @@ function animateProcedural(
         j.leftArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.y, leftDynamicYaw, lerpFactor);
         j.rightArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.y, rightDynamicYaw, lerpFactor);
 
-        j.leftArm.elbow.rotation.z = THREE.MathUtils.lerp(j.leftArm.elbow.rotation.z, isRunning ? 1.5 : 0, lerpFactor);
-        j.rightArm.elbow.rotation.z = THREE.MathUtils.lerp(j.rightArm.elbow.rotation.z, isRunning ? -1.5 : 0, lerpFactor);
+        const elbowBend = isRunning ? 1.5 : alert * 1.0;
+        j.leftArm.elbow.rotation.z = THREE.MathUtils.lerp(j.leftArm.elbow.rotation.z, elbowBend, lerpFactor);
+        j.rightArm.elbow.rotation.z = THREE.MathUtils.lerp(j.rightArm.elbow.rotation.z, -elbowBend, lerpFactor);
 
-        j.torso.rotation.x = THREE.MathUtils.lerp(j.torso.rotation.x, isRunning ? 0.4 : 0.1, lerpFactor);
+        j.torso.rotation.x = THREE.MathUtils.lerp(j.torso.rotation.x, isRunning ? 0.4 : 0.1 + crouch * 0.4 + alert * 0.1, lerpFactor);
         j.neck.rotation.y = THREE.MathUtils.lerp(j.neck.rotation.y, 0, lerpFactor);
         j.neck.rotation.x = THREE.MathUtils.lerp(j.neck.rotation.x, 0, lerpFactor);
 
 
-    } else {
-        // --- IDLE ---
+    } else if (waveTime !== null) {
+        // --- WAVING (GESTURE_WAVE) ---
         walkTime.current += dt;
-        j.hips.position.y = THREE.MathUtils.lerp(j.hips.position.y, 3.5 + Math.sin(walkTime.current) * 0.05, lerpFactor);
+        animateWave(j, waveTime, lerpFactor);
 
-        // Reset ALL rotations
+    } else {
+        // --- IDLE (relaxed, crouched or on guard; mood shows in the stance) ---
+        const valence = mood?.valence ?? 0.5;
+        const arousal = mood?.arousal ?? 0.3;
+        // Low spirits: shoulders forward, head down. Worked up: quicker, fidgety breathing
+        const slump = Math.max(0, 0.5 - valence) * 0.4 * (1 - guard);
+        walkTime.current += dt * (1 + arousal);
+        j.hips.position.y = THREE.MathUtils.lerp(j.hips.position.y, standY + Math.sin(walkTime.current) * 0.05, lerpFactor);
+
+        // Reset ALL rotations (to the crouched / ready stance, if any)
         j.hips.rotation.x = THREE.MathUtils.lerp(j.hips.rotation.x, 0, lerpFactor);
         j.hips.rotation.z = THREE.MathUtils.lerp(j.hips.rotation.z, 0, lerpFactor);
-        j.leftHip.rotation.x = THREE.MathUtils.lerp(j.leftHip.rotation.x, 0, lerpFactor);
-        j.rightHip.rotation.x = THREE.MathUtils.lerp(j.rightHip.rotation.x, 0, lerpFactor);
-        j.leftKnee.rotation.x = THREE.MathUtils.lerp(j.leftKnee.rotation.x, 0, lerpFactor);
-        j.rightKnee.rotation.x = THREE.MathUtils.lerp(j.rightKnee.rotation.x, 0, lerpFactor);
-        j.leftArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.x, 0, lerpFactor);
-        j.rightArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.x, 0, lerpFactor);
-        j.torso.rotation.x = THREE.MathUtils.lerp(j.torso.rotation.x, 0, lerpFactor);
+        j.leftHip.rotation.x = THREE.MathUtils.lerp(j.leftHip.rotation.x, -0.6 * crouch, lerpFactor);
+        j.rightHip.rotation.x = THREE.MathUtils.lerp(j.rightHip.rotation.x, -0.6 * crouch, lerpFactor);
+        j.leftKnee.rotation.x = THREE.MathUtils.lerp(j.leftKnee.rotation.x, 1.0 * crouch + 0.2 * alert, lerpFactor);
+        j.rightKnee.rotation.x = THREE.MathUtils.lerp(j.rightKnee.rotation.x, 1.0 * crouch + 0.2 * alert, lerpFactor);
+        j.leftArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.x, -0.5 * guard, lerpFactor);
+        j.rightArm.shoulder.rotation.x = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.x, -0.5 * guard, lerpFactor);
+        // Lower the arms (e.g. after a wave)
+        j.leftArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.z, 0.8 * crouch, lerpFactor);
+        j.rightArm.shoulder.rotation.z = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.z, -0.8 * crouch, lerpFactor);
+        j.leftArm.elbow.rotation.z = THREE.MathUtils.lerp(j.leftArm.elbow.rotation.z, alert * 1.0, lerpFactor);
+        j.rightArm.elbow.rotation.z = THREE.MathUtils.lerp(j.rightArm.elbow.rotation.z, -alert * 1.0, lerpFactor);
+        j.torso.rotation.x = THREE.MathUtils.lerp(j.torso.rotation.x, crouch * 0.5 + alert * 0.1 + slump, lerpFactor);
         j.neck.rotation.y = THREE.MathUtils.lerp(j.neck.rotation.y, 0, lerpFactor);
-        j.neck.rotation.x = THREE.MathUtils.lerp(j.neck.rotation.x, 0, lerpFactor);
+        j.neck.rotation.x = THREE.MathUtils.lerp(j.neck.rotation.x, slump * 0.8 + Math.sin(walkTime.current * 3) * 0.02 * arousal, lerpFactor);
+        // Unwind the seated pose and looking around
+        j.torso.rotation.y = THREE.MathUtils.lerp(j.torso.rotation.y, 0, lerpFactor);
+        j.leftHip.rotation.z = THREE.MathUtils.lerp(j.leftHip.rotation.z, 0, lerpFactor);
+        j.rightHip.rotation.z = THREE.MathUtils.lerp(j.rightHip.rotation.z, 0, lerpFactor);
+        j.leftArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.leftArm.shoulder.rotation.y, 0, lerpFactor);
+        j.rightArm.shoulder.rotation.y = THREE.MathUtils.lerp(j.rightArm.shoulder.rotation.y, 0, lerpFactor);
+
+        // Conversation gestures (not while sneaking or on guard)
+        if (talking && guard < 0.5) animateTalk(j, totalTime, lerpFactor);
     }
-}
 
+    // Layered on top of walking / idling (not swimming or sitting)
+    if (inWater || pose === 'SITTING') return;
+    if (alert > 0.01 && lookYaw === null) animateScan(j, totalTime, alert, lerpFactor);
+    if (carrying) animateCarry(j, lerpFactor);
+    if (lookYaw !== null) animateLookAt(j, lookYaw, lerpFactor);
+}
@@ -1,5 +1,54 @@
 import * as YUKA from 'yuka';
 import * as THREE from 'three';
+import type { ClientBrain } from './ClientBrain';
+import type { CapabilityCommand, CapabilityEngine, CommandOrder } from '@/lib/capability-engine';
+import { describeCommand } from '@/lib/capabilities';
+import { getPersona } from '@/lib/personas';
+import { AgentMessageBus } from './AgentMessageBus';
+import { FormationManager } from './FormationManager';
+
+export type SquadReceiptStatus = 'REFUSED' | 'ACKNOWLEDGED' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED';
+
+/** One member's answer to a squad order */
+export interface SquadReceipt {
+    commandId: number | null;
+    status: SquadReceiptStatus;
+    reason?: string;
+}
+
+export interface SquadOrder {
+    id: number;
+    leaderId: string;
+    group: string;
+    command: CapabilityCommand;
+    receipts: Record<string, SquadReceipt>;
+}
+
+/** A loose box in the OfficeHub */
+export interface Box {
+    id: string;
+    position: THREE.Vector3;
+    claimedBy?: string; // ID of robot
+}
+
+/** The OfficeHub's boxes, shared by its worker robots and agents' CARRY / PLACE */
+export interface BoxSystem {
+    findAvailableBox(agentPos: { x: number; y: number; z: number }): Box | null;
+    /** A loose box (not carried or placed) */
+    getBox(boxId: string): Box | undefined;
+    claimBox(boxId: string, agentId: string): void;
+    /** Give up a claim without picking the box up */
+    releaseBox(boxId: string, agentId: string): void;
+    pickUpBox(boxId: string, agentId: string): void;
+    /** The box an agent is carrying, if any */
+    getCarried(agentId: string): Box | null;
+    getNextConstructionSlot(): THREE.Vector3;
+    placeBox(pos: THREE.Vector3, agentId: string): void;
+}
+
+/** Every agent is in this squad */
+export const SQUAD_ALL = 'all';
+const MAX_SQUAD_ORDERS = 20; // Kept for inspection
 
 class AIManager {
     private static instance: AIManager;
@@ -7,7 +56,15 @@ class AIManager {
     public time: YUKA.Time;
     public vehicles: YUKA.Vehicle[] = [];
     private obstacles: YUKA.GameEntity[] = [];
-    private capabilities: Map<string, any> = new Map(); // Store capability engines by ID
+    private capabilities: Map<string, CapabilityEngine> = new Map(); // Store capability engines by ID
+    private brains: Map<string, ClientBrain> = new Map();
+    public messageBus: AgentMessageBus = new AgentMessageBus(); // A2A speech between agents
+    private squads: Map<string, Set<string>> = new Map();
+    private squadOrders: SquadOrder[] = [];
+    private nextSquadOrderId = 1;
+    private reservations: Map<string, string> = new Map(); // Interactable id -> agent using it
+    private boxSystem: BoxSystem | null = null;
+    public formations: FormationManager = new FormationManager(this); // Squad formations and their slots
 
     private constructor() {
         this.entityManager = new YUKA.EntityManager();
@@ -21,21 +78,142 @@ class AIManager {
         return AIManager.instance;
     }
 
-    public registerCapabilityEngine(agentId: string, engine: any) {
+    public registerCapabilityEngine(agentId: string, engine: CapabilityEngine) {
         this.capabilities.set(agentId, engine);
     }
 
-    public sendCommand(agentId: string, command: any) {
+    public getCapabilityEngine(agentId: string): CapabilityEngine | undefined {
+        return this.capabilities.get(agentId);
+    }
+
+    public registerBrain(agentId: string, brain: ClientBrain) {
+        this.brains.set(agentId, brain);
+    }
+
+    public getBrain(agentId: string): ClientBrain | undefined {
+        return this.brains.get(agentId);
+    }
+
+    /** An agent unmounted: stop what it was doing (freeing seats, boxes, slots) and forget its engine and brain */
+    public unregisterAgent(agentId: string) {
+        this.capabilities.get(agentId)?.stop();
+        this.capabilities.delete(agentId);
+        this.brains.delete(agentId);
+    }
+
+    public getAgentIds(): string[] {
+        return Array.from(this.capabilities.keys());
+    }
+
+    /** Direct orders (player UI by default); returns the command id, or null if refused */
+    public sendCommand(agentId: string, command: CapabilityCommand, order: CommandOrder = { source: 'PLAYER' }): number | null {
         const engine = this.capabilities.get(agentId);
         if (engine) {
             console.log(`[AIManager] Dispatching command to ${agentId}:`, command);
-            engine.execute(command);
+            return engine.execute(command, order);
         } else {
             console.warn(`[AIManager] No capability engine found for ${agentId}`);
+            return null;
+        }
+    }
+
+    public joinSquad(agentId: string, group: string) {
+        if (!this.squads.has(group)) this.squads.set(group, new Set());
+        this.squads.get(group)!.add(agentId);
+    }
+
+    public leaveSquads(agentId: string) {
+        this.squads.forEach(members => members.delete(agentId));
+    }
+
+    public getSquadMembers(group: string): string[] {
+        return group === SQUAD_ALL ? this.getAgentIds() : Array.from(this.squads.get(group) ?? []);
+    }
+
+    /**
+     * A leader orders its squad: every other member gets the command as a
+     * SQUAD_LEADER order (refused if a player order has them busy).
+     * Receipts are filled in as members acknowledge and finish; each finished
+     * order is also reported to the leader's brain.
+     */
+    public dispatchSquadOrder(leaderId: string, group: string, command: CapabilityCommand): SquadOrder {
+        const order: SquadOrder = { id: this.nextSquadOrderId++, leaderId, group, command, receipts: {} };
+        this.squadOrders = [...this.squadOrders, order].slice(-MAX_SQUAD_ORDERS);
+
+        for (const agentId of this.getSquadMembers(group)) {
+            const engine = this.capabilities.get(agentId);
+            if (agentId === leaderId || !engine) continue;
+
+            // Own copy per member, so its events can be told apart
+            const memberCommand: CapabilityCommand = { ...command };
+            const receipt: SquadReceipt = { commandId: null, status: 'REFUSED', reason: 'busy with a higher-priority order' };
+            order.receipts[agentId] = receipt;
+
+            const unsubscribe = engine.onEvent(event => {
+                if (event.command !== memberCommand) return;
+                if (event.status === 'STARTED') {
+                    receipt.status = 'ACKNOWLEDGED';
+                    receipt.reason = undefined;
+                    return;
+                }
+                if (event.status === 'PROGRESS') return;
+
+                receipt.status = event.status;
+                receipt.reason = event.reason;
+                unsubscribe();
+                this.brains.get(leaderId)?.recordReport({
+                    commandId: event.commandId,
+                    action: `${getPersona(agentId).name} (squad ${group}): ${describeCommand(event.command)}`,
+                    status: event.status,
+                    reason: event.reason ?? ''
+                });
+            });
+
+            receipt.commandId = engine.execute(memberCommand, { source: 'SQUAD_LEADER' });
+            if (receipt.commandId === null) unsubscribe();
         }
+
+        console.log(`[AIManager] Squad order ${order.id} from ${leaderId} to ${group}: ${describeCommand(command)}`, order.receipts);
+        return order;
+    }
+
+    public getSquadOrders(): SquadOrder[] {
+        return this.squadOrders;
+    }
+
+    /** Release an agent's held player order and drop the player's queued ones */
+    public releaseOrders(agentId: string) {
+        const engine = this.capabilities.get(agentId);
+        engine?.clearQueue('PLAYER');
+        engine?.release();
+    }
+
+    /** Claim an interactable (e.g. a seat); false if someone else has it */
+    public reserve(interactableId: string, agentId: string): boolean {
+        const holder = this.reservations.get(interactableId);
+        if (holder && holder !== agentId) return false;
+        this.reservations.set(interactableId, agentId);
+        return true;
+    }
+
+    public releaseReservation(interactableId: string, agentId: string) {
+        if (this.reservations.get(interactableId) === agentId) this.reservations.delete(interactableId);
+    }
+
+    public getReservation(interactableId: string): string | undefined {
+        return this.reservations.get(interactableId);
+    }
+
+    public registerBoxSystem(system: BoxSystem | null) {
+        this.boxSystem = system;
+    }
+
+    public getBoxSystem(): BoxSystem | null {
+        return this.boxSystem;
     }
 
     public update(delta: number) {
+        this.formations.update(delta);
         this.entityManager.update(delta);
     }
 
@@ -0,0 +1,188 @@
+import * as THREE from 'three';
+import { WorldRegistry } from '@/lib/yuka-oracle';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface AgentMessage {
+    id: number;
+    from: string;
+    /** null = broadcast to everyone in hearing range */
+    to: string | null;
+    text: string;
+    conversationId: number;
+    time: number;
+}
+
+interface Conversation {
+    id: number;
+    participants: string[];
+    /** Whose turn it is to speak */
+    turn: string;
+    turns: number;
+    lastActivity: number;
+}
+
+/** Speech carries this far (m); also how close the player must be to overhear */
+export const HEARING_RANGE = 15.0;
+
+export type SendResult = 'SENT' | 'NOT_YOUR_TURN' | 'OUT_OF_RANGE' | 'NO_LISTENERS';
+
+type SpeechListener = (message: AgentMessage) => void;
+
+const MAX_TURNS = 8;              // Lines per conversation before everyone moves on
+const CONVERSATION_TIMEOUT_MS = 30000;
+const MAX_INBOX = 5;              // Unread messages kept per agent
+
+// =============================================================================
+// AGENT MESSAGE BUS (A2A)
+// =============================================================================
+
+/**
+ * Agent-to-agent speech. Messages are spoken aloud: only agents within
+ * HEARING_RANGE of the speaker receive them (direct or broadcast).
+ *
+ * Turn-taking: speaking to someone starts (or joins) a conversation;
+ * after each line the turn passes to the addressee (direct) or the next
+ * participant (broadcast), and other participants must wait for theirs.
+ * A conversation ends after MAX_TURNS lines or CONVERSATION_TIMEOUT_MS of silence,
+ * or when an agent whose turn it is can't answer (see endTurn()).
+ */
+export class AgentMessageBus {
+    private agents: Set<string> = new Set();
+    private inboxes: Map<string, AgentMessage[]> = new Map();
+    private conversations: Map<number, Conversation> = new Map();
+    private listeners: Set<SpeechListener> = new Set();
+    private nextId = 1;
+
+    public register(agentId: string): void {
+        this.agents.add(agentId);
+    }
+
+    public unregister(agentId: string): void {
+        this.agents.delete(agentId);
+        this.inboxes.delete(agentId);
+        for (const conversation of this.conversations.values()) {
+            this.leave(conversation, agentId);
+        }
+    }
+
+    public isRegistered(agentId: string): boolean {
+        return this.agents.has(agentId);
+    }
+
+    /** Say something to one agent, or to everyone nearby when `to` is null */
+    public send(from: string, to: string | null, text: string, now: number = Date.now()): SendResult {
+        this.expireConversations(now);
+
+        const current = this.findConversation(from);
+        if (current && current.turn !== from) return 'NOT_YOUR_TURN';
+
+        const recipients = this.inRange(from).filter(id => to === null || id === to);
+        if (recipients.length === 0) return to === null ? 'NO_LISTENERS' : 'OUT_OF_RANGE';
+
+        const conversation = current ?? this.findConversation(to ?? recipients[0]) ?? this.startConversation(from, now);
+        for (const id of [from, ...recipients]) {
+            if (!conversation.participants.includes(id)) conversation.participants.push(id);
+        }
+
+        const message: AgentMessage = { id: this.nextId++, from, to, text, conversationId: conversation.id, time: now };
+        for (const id of recipients) {
+            const inbox = this.inboxes.get(id) ?? [];
+            inbox.push(message);
+            this.inboxes.set(id, inbox.slice(-MAX_INBOX));
+        }
+
+        conversation.turns++;
+        conversation.lastActivity = now;
+        if (conversation.turns >= MAX_TURNS) {
+            this.conversations.delete(conversation.id);
+            console.log(`[A2A] Conversation ${conversation.id} (${conversation.participants.join(', ')}) ended after ${conversation.turns} lines`);
+        } else {
+            conversation.turn = to ?? this.nextParticipant(conversation, from);
+        }
+
+        console.log(`[A2A] ${from} -> ${to ?? 'everyone nearby'}: "${text}"`);
+        this.listeners.forEach(listener => listener(message));
+        return 'SENT';
+    }
+
+    /**
+     * Unread messages for an agent, but only when it's their turn to answer.
+     * Lines from conversations that have ended are dropped: nobody replies to a closer.
+     */
+    public take(agentId: string, now: number = Date.now()): AgentMessage[] {
+        this.expireConversations(now);
+        const inbox = this.inboxes.get(agentId);
+        if (!inbox || inbox.length === 0 || !this.canSpeak(agentId)) return [];
+        this.inboxes.set(agentId, []);
+        return inbox.filter(message => this.conversations.has(message.conversationId));
+    }
+
+    /**
+     * Give up our turn without a word (brain offline, rate-limited, nothing to say):
+     * we leave the conversation, so the others don't wait out CONVERSATION_TIMEOUT_MS.
+     */
+    public endTurn(agentId: string): void {
+        const conversation = this.findConversation(agentId);
+        if (!conversation || conversation.turn !== agentId) return;
+        this.leave(conversation, agentId);
+        console.log(`[A2A] ${agentId} can't answer, leaves conversation ${conversation.id}`);
+    }
+
+    /** Free to talk: not in a conversation, or it's our turn */
+    public canSpeak(agentId: string): boolean {
+        const conversation = this.findConversation(agentId);
+        return !conversation || conversation.turn === agentId;
+    }
+
+    /** Hear every line spoken (e.g. to render speech bubbles) */
+    public subscribe(listener: SpeechListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    private inRange(speakerId: string): string[] {
+        const registry = WorldRegistry.getInstance();
+        const origin = registry.getPosition(speakerId);
+        if (!origin) return [];
+
+        return Array.from(this.agents).filter(id => {
+            if (id === speakerId) return false;
+            const pos: THREE.Vector3 | null = registry.getPosition(id);
+            return !!pos && pos.distanceTo(origin) <= HEARING_RANGE;
+        });
+    }
+
+    private findConversation(agentId: string): Conversation | undefined {
+        for (const conversation of this.conversations.values()) {
+            if (conversation.participants.includes(agentId)) return conversation;
+        }
+        return undefined;
+    }
+
+    private startConversation(from: string, now: number): Conversation {
+        const conversation: Conversation = { id: this.nextId++, participants: [from], turn: from, turns: 0, lastActivity: now };
+        this.conversations.set(conversation.id, conversation);
+        return conversation;
+    }
+
+    private nextParticipant(conversation: Conversation, speaker: string): string {
+        const index = conversation.participants.indexOf(speaker);
+        return conversation.participants[(index + 1) % conversation.participants.length];
+    }
+
+    private leave(conversation: Conversation, agentId: string): void {
+        if (!conversation.participants.includes(agentId)) return;
+        if (conversation.turn === agentId) conversation.turn = this.nextParticipant(conversation, agentId);
+        conversation.participants = conversation.participants.filter(id => id !== agentId);
+        if (conversation.participants.length < 2) this.conversations.delete(conversation.id);
+    }
+
+    private expireConversations(now: number): void {
+        for (const [id, conversation] of this.conversations) {
+            if (now - conversation.lastActivity > CONVERSATION_TIMEOUT_MS) this.conversations.delete(id);
+        }
+    }
+}
@@ -1,129 +1,541 @@
 import * as THREE from 'three';
-import { generateAgentThought, AgentContext, NearbyEntity } from '@/app/actions';
+import { generateAgentReflex, generateAgentThought, sendPlayerMessage, AgentContext, DialogueReply, DialogueResponse, HeardMessage, LimbicResponse, NearbyEntity, ReflexResponse } from '@/app/actions';
 import { GlobalRateLimiter } from '@/lib/global-rate-limiter';
-import { YukaOracle } from '@/lib/yuka-oracle';
-import { CapabilityCommand, CapabilityType, Posture } from '@/lib/capability-engine';
+import type { ModelSelection } from '@/lib/llm-provider';
+import { LLMRequestQueue, RateLimitError, type RequestPriority } from '@/lib/llm-queue';
+import { RULE_BRAIN } from '@/lib/model-router';
+import { WorldRegistry, YukaOracle, type WorldSnapshot } from '@/lib/yuka-oracle';
+import { CapabilityCommand, CapabilityEvent, CapabilityType, Posture } from '@/lib/capability-engine';
+import { describeCommand, exportCapabilityManifest, type CapabilityOutcome } from '@/lib/capabilities';
+import { parseJsonWith, validateNeocortexResponse } from '@/lib/llm-schemas';
+import type { EmotionalState } from '@/lib/context-mixer';
+import type { PerceptionEvent } from './PerceptionSensor';
+import type { AgentMessage, AgentMessageBus } from './AgentMessageBus';
+import AIManager from './AIManager';
+import { UtilityBrain } from './UtilityBrain';
+
+/** Which brain produced the agent's decisions */
+export type BrainKind = 'LLM' | 'UTILITY';
 
 export interface BrainState {
     thought: string;
     isThinking: boolean;
     lastThoughtTime: number;
+    /** Last vocalization (Limbic bark or reply to the player), shown as a speech bubble */
+    bark: string | null;
+    barkTime: number;
+    /** Last line spoken aloud from a thought (to another agent, or to nobody in particular) */
+    speech: SpeechLine | null;
+    /** Model that produced the last thought (after server-side fallbacks) */
+    model: string | null;
+    activeBrain: BrainKind;
+}
+
+export interface SpeechLine {
+    text: string;
+    /** Agent it was addressed to, null = everyone in earshot */
+    to: string | null;
+    time: number;
+}
+
+export interface ReflexResult {
+    reaction: LimbicResponse['reaction'];
+    command: CapabilityCommand | null;
+    /** Too uncertain or too complex for instinct: ask the Neocortex */
+    escalate: boolean;
 }
+
+/** Below this Limbic confidence the Neocortex takes over */
+const REFLEX_CONFIDENCE_THRESHOLD = 0.6;
+/** How far a FLEE reflex runs from the threat */
+const RETREAT_DISTANCE = 15;
+/** How a reflex shifts the mood: [valence, arousal] */
+const REFLEX_FEELINGS: Record<LimbicResponse['reaction'], [number, number]> = {
+    WAVE: [0.1, 0.1],
+    APPROACH: [0.05, 0.15],
+    FLEE: [-0.2, 0.4],
+    OBSERVE: [0, 0.1],
+    IGNORE: [0, 0]
+};
+/** After the LLM fails, the utility brain decides for this long before the LLM is tried again */
+const LLM_RETRY_MS = 60000;
+/** Unreported command outcomes kept for the next thought */
+const MAX_PENDING_OUTCOMES = 5;
+/** The NavMesh is sent again after this long, in case the server dropped our session */
+const NAV_RESEND_MS = 5 * 60 * 1000;
 // Using CapabilityCommand directly from engine
 
+/** Pre-capability Neocortex output, still found in old recordings */
+interface LegacyDecision {
+    action: string;
+    targetId?: string;
+    target?: { x: number; y: number; z: number };
+    thought?: string;
+}
+
 
 export class ClientBrain {
     public state: BrainState;
     private rateLimiter: GlobalRateLimiter;
+    private queue: LLMRequestQueue;
     private oracle: YukaOracle;
+    private utility: UtilityBrain;
+    private bus: AgentMessageBus;
     private id: string;
+    private thoughtSeq: number = 0;
+    private llmDownUntil: number = 0;
+    /** Finished commands the Neocortex hasn't heard about yet */
+    private pendingOutcomes: CapabilityOutcome[] = [];
+    /** NavMesh the server holds for this agent, and when it got it */
+    private navSent: { hash: string; at: number } | null = null;
 
     constructor(id: string = 'agent-01') {
         this.id = id;
         this.state = {
             thought: "Initializing neural pathways...",
             isThinking: false,
-            lastThoughtTime: 0
+            lastThoughtTime: 0,
+            bark: null,
+            barkTime: 0,
+            speech: null,
+            model: null,
+            activeBrain: 'LLM'
         };
-        // Use Global Shared Limiter
+        // Use Global Shared Limiter, behind the shared priority queue
         this.rateLimiter = GlobalRateLimiter.getInstance();
+        this.queue = LLMRequestQueue.getInstance();
 
         // Neuro-Symbolic Bridge (Client Side)
         this.oracle = new YukaOracle();
+
+        // Offline fallback when the LLM is off or unreachable
+        this.utility = new UtilityBrain(id);
+
+        // Agent-to-agent speech
+        this.bus = AIManager.getInstance().messageBus;
     }
 
+    /**
+     * Strategist path (Neocortex). Periodic thoughts are skipped while one is
+     * outstanding; stimulus-driven ones always queue (replacing a waiting thought).
+     * Messages from other agents (`inbox`) make it a SOCIAL thought; any `speech`
+     * in the decision is said aloud on the message bus.
+     * With the LLM switched off, or failing (errors / only the server's rule brain
+     * answering), the utility brain decides until LLM_RETRY_MS has passed.
+     */
     public async update(
         position: THREE.Vector3,
         nearbyEntities: NearbyEntity[],
         currentBehavior: string,
         allowedCommands: string[] = [],
-        llmEnabled: boolean = true
+        llmEnabled: boolean = true,
+        stimulus?: string,
+        models: ModelSelection = {},
+        inbox: AgentMessage[] = []
     ): Promise<CapabilityCommand | null> {
+        // Whatever startled us wears off between thoughts
+        this.utility.feel(0, 0);
 
-        // Rate Limiting Check
-        if (this.state.isThinking || !this.rateLimiter.tryConsume()) {
+        if (this.state.isThinking && !stimulus && inbox.length === 0) {
             return null;
         }
 
-        // 1. Check LLM Toggle
-        if (!llmEnabled) {
-            // Brain is "off" for high-level thought, return basic keep-alive or null
-            return null;
+        // 1. LLM switched off or unavailable: decide locally (the utility brain can't answer anyone)
+        if (!llmEnabled || Date.now() < this.llmDownUntil) {
+            this.passTurn(inbox);
+            return this.decideLocally(position, nearbyEntities, currentBehavior, allowedCommands);
         }
 
+        // Being spoken to is social; escalated reflexes are perception; timer ticks re-check goals,
+        // or just muse when alone. The label sets the server's context mix / model route.
+        const trigger = inbox.length > 0 ? 'SOCIAL'
+            : stimulus ? 'PERCEPTION'
+            : nearbyEntities.length > 0 ? 'GOAL_CHECK' : 'IDLE_THOUGHT';
+        // Agents answering each other queue behind the player's chat
+        const priority: RequestPriority = trigger === 'SOCIAL' ? 'PERCEPTION' : trigger;
+        const messages: HeardMessage[] = inbox.map(m => ({ from: m.from, text: m.text, direct: m.to === this.id }));
+
+        const seq = ++this.thoughtSeq;
         this.state.isThinking = true;
 
+        try {
+            const responseText = await this.queue.enqueue({
+                agentId: this.id,
+                priority,
+                key: 'think',
+                run: () => this.requestThought(position, nearbyEntities, currentBehavior, trigger, models, allowedCommands, messages, stimulus)
+            });
+            if (responseText === null) return null; // Superseded or went stale in the queue
+
+            let command: CapabilityCommand;
+            const decision = parseJsonWith(responseText, validateNeocortexResponse);
+
+            if (decision.ok && decision.value.model === RULE_BRAIN) {
+                // No model answered on the server; our utility brain knows more than its rule brain
+                this.markLLMDown('no model answered');
+                this.passTurn(inbox);
+                return this.decideLocally(position, nearbyEntities, currentBehavior, allowedCommands);
+            }
+
+            if (decision.ok) {
+                // e.g. { type: 'NAVIGATE_TO_ANCHOR', params: { target: 'Desk' }, posture: 'WALK', thought: '...' }
+                const { type, params, posture, thought, speech, model } = decision.value;
+                command = { type, params, posture };
+                this.state.thought = thought;
+                this.state.model = model ?? null;
+                if (speech?.trim()) this.speak(speech.trim(), params?.target);
+                else this.passTurn(inbox);
+            } else {
+                const legacy = this.parseLegacyDecision(responseText);
+                if (legacy) {
+                    // Compatibility path for old recordings using the MOVE_TO/WAIT/... schema
+                    console.log("[ClientBrain] Adapting legacy output:", legacy);
+                    command = this.adaptLegacyDecision(legacy);
+                    if (typeof legacy.thought === 'string') this.state.thought = legacy.thought;
+                } else {
+                    console.warn(`[ClientBrain:${this.id}] Invalid decision:`, decision.errors, responseText);
+                    command = {
+                        type: 'IDLE',
+                        posture: 'ALERT'
+                    };
+                    this.state.thought = "Brain freeze (Invalid decision)";
+                }
+                this.passTurn(inbox);
+            }
+
+            this.state.lastThoughtTime = Date.now();
+            this.state.activeBrain = 'LLM';
+
+            // 2. Filter Command
+            if (command && allowedCommands.length > 0 && !allowedCommands.includes(command.type)) {
+                console.log(`[ClientBrain] Command filtered by settings: ${command.type}`);
+                return { type: 'IDLE', posture: 'WALK' };
+            }
+
+            return command;
+
+        } catch (e) {
+            console.error(`[ClientBrain:${this.id}] Error:`, e);
+            this.markLLMDown('request failed');
+            this.passTurn(inbox);
+            return this.decideLocally(position, nearbyEntities, currentBehavior, allowedCommands);
+        } finally {
+            if (seq === this.thoughtSeq) this.state.isThinking = false;
+        }
+    }
+
+    /** Current mood (valence / arousal 0..1), shown in the agent's body language */
+    public getMood(): EmotionalState {
+        return this.utility.getMood();
+    }
+
+    /**
+     * A command finished (CapabilityEngine lifecycle). The outcome goes into the
+     * next thought's context, so the Neocortex learns what didn't work.
+     * Restarts of the same command are the brain's own doing and aren't reported.
+     */
+    public recordOutcome(event: CapabilityEvent): void {
+        if (event.status !== 'SUCCEEDED' && event.status !== 'FAILED' && event.status !== 'CANCELLED') return;
+        if (event.status === 'CANCELLED' && event.reason === 'restarted') return;
+
+        const outcome: CapabilityOutcome = {
+            commandId: event.commandId,
+            action: describeCommand(event.command),
+            status: event.status,
+            reason: event.reason ?? ''
+        };
+        this.recordReport(outcome);
+        this.utility.recordOutcome(event.command, outcome);
+    }
+
+    /** An outcome from elsewhere (e.g. a squad member finishing our order), for the next thought */
+    public recordReport(outcome: CapabilityOutcome): void {
+        this.pendingOutcomes = [...this.pendingOutcomes, outcome].slice(-MAX_PENDING_OUTCOMES);
+    }
+
+    /** Utility brain path: synchronous, no network */
+    private decideLocally(
+        position: THREE.Vector3,
+        nearbyEntities: NearbyEntity[],
+        currentBehavior: string,
+        allowedCommands: string[]
+    ): CapabilityCommand | null {
+        const decision = this.utility.decide(position, nearbyEntities, currentBehavior, allowedCommands);
+        this.state.activeBrain = 'UTILITY';
+        this.state.thought = decision.thought;
+        this.state.model = null;
+        this.state.lastThoughtTime = Date.now();
+        return decision.command;
+    }
+
+    /** Spoken to, but no answer is coming: hand the turn back rather than leave the speaker waiting */
+    private passTurn(inbox: AgentMessage[]): void {
+        if (inbox.length > 0) this.bus.endTurn(this.id);
+    }
+
+    private markLLMDown(reason: string): void {
+        if (Date.now() >= this.llmDownUntil) {
+            console.warn(`[ClientBrain:${this.id}] LLM unavailable (${reason}), utility brain takes over for ${LLM_RETRY_MS / 1000}s`);
+        }
+        this.llmDownUntil = Date.now() + LLM_RETRY_MS;
+    }
+
+    /**
+     * Say a line aloud: addressed to `target` if that's an agent, otherwise to everyone nearby.
+     * Speaking out of turn in a conversation is swallowed.
+     */
+    private speak(text: string, target: unknown): void {
+        const to = typeof target === 'string' && target !== this.id && this.bus.isRegistered(target) ? target : null;
+        const result = this.bus.send(this.id, to, text);
+        if (result === 'NOT_YOUR_TURN') {
+            console.log(`[ClientBrain:${this.id}] Holding my tongue, not my turn: "${text}"`);
+            return;
+        }
+        this.state.speech = { text, to: result === 'SENT' ? to : null, time: Date.now() };
+    }
+
+    /** Runs when the queue serves us, so the context is as fresh as possible */
+    private async requestThought(
+        position: THREE.Vector3,
+        nearbyEntities: NearbyEntity[],
+        currentBehavior: string,
+        trigger: AgentContext['trigger'],
+        models: ModelSelection,
+        allowedCommands: string[],
+        messages: HeardMessage[],
+        stimulus?: string
+    ): Promise<string> {
         // Generate Physics/Spatial Context
         const spatialContext = this.oracle.generateSpatialContext(this.id);
 
+        // Outcomes are reported once; the server keeps them in memory
+        const outcomes = this.pendingOutcomes;
+        this.pendingOutcomes = [];
+
         // Construct Context
         const context: AgentContext = {
+            agentId: this.id,
             position: { x: position.x, y: position.y, z: position.z },
             nearbyEntities: nearbyEntities,
             currentBehavior: currentBehavior,
-            spatialContext: spatialContext
+            spatialContext: spatialContext,
+            world: this.exportWorld(),
+            stimulus,
+            trigger,
+            models,
+            messages,
+            outcomes,
+            capabilities: exportCapabilityManifest(allowedCommands)
         };
 
-        try {
-            console.log(`[ClientBrain:${this.id}] Thinking... (Tokens left: ${this.rateLimiter.getTokensRemaining()})`);
+        console.log(`[ClientBrain:${this.id}] Thinking... (Tokens left: ${this.rateLimiter.getTokensRemaining()})`);
 
-            // Add instructions for new Capability format in prompt overrides or assume agent-core is smart enough?
-            // "agent-core" is using Llama4 which adheres to schemas well, but we should probably hint it.
-            // Actually, processAgentThought builds the prompt. We rely on IT inferring from 'spatialContext' and previous examples.
-            // Ideally, we'd update agent-core instructions, but let's trust the model for now or simple "Try to output JSON matching CapabilityCommand".
+        const responseText = await generateAgentThought(context);
 
-            const responseText = await generateAgentThought(context);
+        // The server reports 429s in-band; throwing lets the queue pause and retry us
+        const retryAfterMs = this.parseRetryAfter(responseText);
+        if (retryAfterMs !== null) {
+            // Whoever spoke to us shouldn't wait for the retry
+            if (messages.length > 0) this.bus.endTurn(this.id);
+            throw new RateLimitError(retryAfterMs);
+        }
 
-            const cleanText = responseText.replace(/```json/g, '').replace(/```/g, '').trim();
+        this.confirmWorld(context.world);
+        return responseText;
+    }
 
-            let command: CapabilityCommand;
-            try {
-                // We expect the LLM to output a CapabilityCommand structure now.
-                // e.g. { type: 'NAVIGATE_TO_ANCHOR', params: { target: 'Desk' }, posture: 'WALK' }
-                const parsed = JSON.parse(cleanText);
-
-                // Mapper for legacy "Decision" structure if model is still trained on old way:
-                if (parsed.action) {
-                    // Legacy Adapter
-                    console.log("[ClientBrain] Adapting legacy output:", parsed);
-                    command = this.adaptLegacyDecision(parsed);
-                } else {
-                    command = parsed;
-                }
+    /**
+     * Reflex path (Limbic): react to a perception event without a full thought.
+     * Returns null when switched off, or when a newer event replaced this one in the queue.
+     */
+    public async react(
+        event: PerceptionEvent,
+        position: THREE.Vector3,
+        nearbyEntities: NearbyEntity[],
+        currentBehavior: string,
+        allowedCommands: string[] = [],
+        llmEnabled: boolean = true,
+        models: ModelSelection = {}
+    ): Promise<ReflexResult | null> {
+        if (!llmEnabled) {
+            return null;
+        }
 
-                // Store thought separately if present (Capabilities don't always have 'thought')
-                if ('thought' in parsed) {
-                    this.state.thought = parsed.thought;
-                }
+        const context: AgentContext = {
+            agentId: this.id,
+            position: { x: position.x, y: position.y, z: position.z },
+            nearbyEntities: nearbyEntities,
+            currentBehavior: currentBehavior,
+            models
+        };
+
+        try {
+            const response = await this.queue.enqueue({
+                agentId: this.id,
+                priority: 'PERCEPTION',
+                key: 'reflex',
+                maxAgeMs: 3000, // A reflex that comes late is no reflex
+                run: () => this.requestReflex(context, event.description)
+            });
+            if (!response) return null;
+
+            console.log(`[ClientBrain:${this.id}] Reflex to ${event.kind}: ${response.reaction} (${response.confidence})`);
+            this.utility.feel(...REFLEX_FEELINGS[response.reaction]);
 
-            } catch (jsonError) {
-                console.warn(`[ClientBrain:${this.id}] JSON Parse Error:`, cleanText);
-                command = {
-                    type: 'IDLE',
-                    posture: 'ALERT'
-                };
-                this.state.thought = "Brain freeze (Invalid JSON)";
+            if (response.bark) {
+                this.state.bark = response.bark;
+                this.state.barkTime = Date.now();
             }
 
-            this.state.lastThoughtTime = Date.now();
-            this.state.isThinking = false;
+            const escalate = response.reaction === 'OBSERVE' || response.confidence < REFLEX_CONFIDENCE_THRESHOLD;
+            if (escalate) {
+                return { reaction: response.reaction, command: null, escalate };
+            }
 
-            // 2. Filter Command
+            let command = this.mapReflex(response.reaction, event, position);
             if (command && allowedCommands.length > 0 && !allowedCommands.includes(command.type)) {
-                console.log(`[ClientBrain] Command filtered by settings: ${command.type}`);
-                return { type: 'IDLE', posture: 'WALK' };
+                console.log(`[ClientBrain] Reflex filtered by settings: ${command.type}`);
+                command = null;
             }
 
-            return command;
+            return { reaction: response.reaction, command, escalate };
 
         } catch (e) {
-            console.error(`[ClientBrain:${this.id}] Error:`, e);
-            this.state.isThinking = false;
+            console.error(`[ClientBrain:${this.id}] Reflex error:`, e);
+            return null;
+        }
+    }
+
+    /**
+     * Dialogue path: the player typed something to this agent.
+     * Jumps the queue (SOCIAL priority); the reply becomes a speech bubble and
+     * the command it implies (if any, and allowed) is returned for execution.
+     */
+    public async chat(
+        message: string,
+        position: THREE.Vector3,
+        nearbyEntities: NearbyEntity[],
+        currentBehavior: string,
+        allowedCommands: string[] = [],
+        llmEnabled: boolean = true,
+        models: ModelSelection = {}
+    ): Promise<DialogueReply | null> {
+        if (!llmEnabled || Date.now() < this.llmDownUntil) {
+            // The utility brain can't hold a conversation
+            return { reply: '...', command: null, thought: "Can't find the words without my cloud brain." };
+        }
+
+        const context: AgentContext = {
+            agentId: this.id,
+            position: { x: position.x, y: position.y, z: position.z },
+            nearbyEntities,
+            currentBehavior,
+            spatialContext: this.oracle.generateSpatialContext(this.id),
+            world: this.exportWorld(),
+            trigger: 'SOCIAL',
+            models,
+            capabilities: exportCapabilityManifest(allowedCommands)
+        };
+
+        try {
+            const response = await this.queue.enqueue({
+                agentId: this.id,
+                priority: 'SOCIAL',
+                key: 'chat',
+                maxAgeMs: 30000,
+                run: () => this.requestReply(context, message)
+            });
+            if (!response) return null;
+
+            this.state.bark = response.reply;
+            this.state.barkTime = Date.now();
+            this.state.thought = response.thought;
+            this.state.model = response.model ?? null;
+            this.state.activeBrain = 'LLM';
+
+            let command = response.command;
+            if (command && allowedCommands.length > 0 && !allowedCommands.includes(command.type)) {
+                console.log(`[ClientBrain] Reply command filtered by settings: ${command.type}`);
+                command = null;
+            }
+            return { ...response, command };
+
+        } catch (e) {
+            console.error(`[ClientBrain:${this.id}] Chat error:`, e);
+            return null;
+        }
+    }
+
+    private async requestReply(context: AgentContext, message: string): Promise<DialogueResponse> {
+        const response = await sendPlayerMessage(context, message);
+        if (response.retryAfterMs !== undefined) throw new RateLimitError(response.retryAfterMs);
+        this.confirmWorld(context.world);
+        return response;
+    }
+
+    /** The world for the server; the NavMesh only when it hasn't got this one (see NAV_RESEND_MS) */
+    private exportWorld(): WorldSnapshot {
+        const { nav, ...world } = WorldRegistry.getInstance().exportSnapshot();
+        const held = this.navSent && this.navSent.hash === world.navHash && Date.now() - this.navSent.at < NAV_RESEND_MS;
+        return held ? world : { ...world, nav };
+    }
+
+    /** The server took the request, so it keeps the NavMesh that went with it */
+    private confirmWorld(world?: WorldSnapshot) {
+        if (world?.nav) this.navSent = { hash: world.nav.hash, at: Date.now() };
+    }
+
+    private async requestReflex(context: AgentContext, stimulus: string): Promise<ReflexResponse> {
+        const response = await generateAgentReflex(context, stimulus);
+        if (response.retryAfterMs !== undefined) throw new RateLimitError(response.retryAfterMs);
+        return response;
+    }
+
+    /** `{"retryAfterMs": n}` is the server's in-band rate limit signal */
+    private parseRetryAfter(text: string): number | null {
+        try {
+            const parsed = JSON.parse(text);
+            return typeof parsed?.retryAfterMs === 'number' ? parsed.retryAfterMs : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /** Map a Limbic reaction straight onto a capability */
+    private mapReflex(reaction: LimbicResponse['reaction'], event: PerceptionEvent, position: THREE.Vector3): CapabilityCommand | null {
+        switch (reaction) {
+            case 'WAVE':
+                return { type: 'GESTURE_WAVE', params: { target: event.sourceId } };
+            case 'APPROACH':
+                return { type: 'SOCIAL_INTERACT', params: { target: event.sourceId }, posture: 'WALK' };
+            case 'FLEE': {
+                const threat = WorldRegistry.getInstance().getPosition(event.sourceId);
+                if (!threat) return { type: 'HOLD_POSITION', posture: 'ALERT' };
+
+                const away = position.clone().sub(threat).setY(0);
+                if (away.lengthSq() < 0.001) away.set(1, 0, 0);
+                const retreat = position.clone().add(away.normalize().multiplyScalar(RETREAT_DISTANCE));
+                return { type: 'NAVIGATE_TO_COORD', params: { x: retreat.x, y: position.y, z: retreat.z }, posture: 'RUN' };
+            }
+            default:
+                return null;
+        }
+    }
+
+    private parseLegacyDecision(text: string): LegacyDecision | null {
+        try {
+            const parsed = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+            return typeof parsed?.action === 'string' ? parsed : null;
+        } catch {
             return null;
         }
     }
 
-    private adaptLegacyDecision(legacy: any): CapabilityCommand {
+    /**
+     * Map the pre-capability Neocortex schema (MOVE_TO|WAIT|WANDER|FOLLOW|SPEAK|WORK)
+     * onto capabilities. Only kept so old recordings still replay.
+     */
+    private adaptLegacyDecision(legacy: LegacyDecision): CapabilityCommand {
         // Map old 'MOVE_TO' etc to new Capabilities
         let type: CapabilityType = 'IDLE';
         let params = {};
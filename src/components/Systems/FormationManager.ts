@@ -0,0 +1,279 @@
+import * as THREE from 'three';
+import type AIManager from './AIManager';
+import type { CommandSource, Posture } from '@/lib/capability-engine';
+import { WorldRegistry } from '@/lib/yuka-oracle';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type FormationShape = 'LINE' | 'COLUMN' | 'WEDGE' | 'CIRCLE';
+
+export const FORMATION_SHAPES: FormationShape[] = ['LINE', 'COLUMN', 'WEDGE', 'CIRCLE'];
+
+export interface Formation {
+    id: number;
+    /** Entity the formation moves with (an agent or the player) */
+    leaderId: string;
+    group: string;
+    shape: FormationShape;
+    /** CIRCLE forms around this entity; the leader unless given */
+    centerId: string;
+    /** Authority members get their slot orders with */
+    source: CommandSource;
+    /** Slot order: members[i] holds slot i */
+    members: string[];
+}
+
+interface LeaderTrack {
+    position: THREE.Vector3;
+    /** Smoothed m/s */
+    speed: number;
+    /** Yaw (rad) of the last real movement; slots are laid out behind/beside it */
+    heading: number;
+}
+
+const SPACING = 3.5;           // m between neighbouring slots
+const MIN_CIRCLE_RADIUS = 4.0; // m
+const RUN_SPEED = 8.0;         // m/s; a leader moving faster than this makes the formation run
+const CATCH_UP_DISTANCE = 8.0; // m; a member this far from its slot runs to it
+const MOVING_SPEED = 0.5;      // m/s; slower and the heading is kept as it was
+const SPEED_SMOOTHING = 0.1;
+
+// =============================================================================
+// FORMATION MANAGER
+// =============================================================================
+
+/**
+ * Group movement: a leader's FORMATION order becomes one slot per squad member,
+ * laid out relative to the leader's position and heading (or around a center
+ * for CIRCLE). Members hold their slot with KEEP_FORMATION, at the leader's pace.
+ *
+ * Membership follows the squad: agents joining it are enlisted, agents leaving
+ * it (or taking another order) drop out, and slots are reassigned nearest-first
+ * whenever that happens.
+ */
+export class FormationManager {
+    private manager: AIManager;
+    private formations: Map<number, Formation> = new Map();
+    private leaders: Map<number, LeaderTrack> = new Map();
+    private slots: Map<number, Map<string, THREE.Vector3>> = new Map();
+    /** Agents that refused or left a formation; not re-enlisted */
+    private declined: Map<number, Set<string>> = new Map();
+    private nextId = 1;
+
+    constructor(manager: AIManager) {
+        this.manager = manager;
+    }
+
+    /**
+     * Form up `group` on `leaderId` (replacing the leader's previous formation).
+     * `issuerId` is the agent carrying out the FORMATION order: if it's a member
+     * its slot order is queued behind that one instead of interrupting it.
+     */
+    public form(leaderId: string, group: string, shape: FormationShape, centerId: string = leaderId, issuerId?: string): Formation {
+        const previous = this.getByLeader(leaderId);
+        if (previous) this.disband(previous.id);
+
+        const formation: Formation = {
+            id: this.nextId++, leaderId, group, shape, centerId,
+            source: leaderId === 'player-01' ? 'PLAYER' : 'SQUAD_LEADER',
+            members: []
+        };
+        const position = WorldRegistry.getInstance().getPosition(leaderId) ?? new THREE.Vector3();
+        this.formations.set(formation.id, formation);
+        this.leaders.set(formation.id, { position: position.clone(), speed: 0, heading: 0 });
+        this.declined.set(formation.id, new Set());
+
+        for (const agentId of this.manager.getSquadMembers(group)) {
+            if (agentId !== leaderId) this.enlist(formation, agentId, agentId === issuerId);
+        }
+        this.assignSlots(formation);
+
+        console.log(`[Formation] ${formation.id}: ${shape} on ${leaderId} (${group}): ${formation.members.join(', ') || 'nobody'}`);
+        return formation;
+    }
+
+    /** Dismiss a formation; members stop where they are */
+    public disband(formationId: number) {
+        const formation = this.formations.get(formationId);
+        if (!formation) return;
+        this.remove(formationId);
+        for (const agentId of formation.members) {
+            this.manager.sendCommand(agentId, { type: 'IDLE', posture: 'WALK' }, { source: formation.source });
+        }
+        console.log(`[Formation] ${formationId} disbanded`);
+    }
+
+    /** A member stopped holding its slot (given another order, or gone) */
+    public leave(formationId: number, agentId: string) {
+        const formation = this.formations.get(formationId);
+        if (!formation || !formation.members.includes(agentId)) return;
+        formation.members = formation.members.filter(id => id !== agentId);
+        this.declined.get(formationId)?.add(agentId);
+        this.assignSlots(formation);
+    }
+
+    public get(formationId: number): Formation | undefined {
+        return this.formations.get(formationId);
+    }
+
+    public getByLeader(leaderId: string): Formation | undefined {
+        return Array.from(this.formations.values()).find(f => f.leaderId === leaderId);
+    }
+
+    public getFormations(): Formation[] {
+        return Array.from(this.formations.values());
+    }
+
+    /** Where a member should be right now, or null if it's not in the formation */
+    public getSlot(formationId: number, agentId: string): THREE.Vector3 | null {
+        return this.slots.get(formationId)?.get(agentId) ?? null;
+    }
+
+    /**
+     * Members move at the leader's pace: an agent leader's posture, the player's
+     * speed (walking or sprinting); a member that fell behind runs to catch up.
+     */
+    public getPosture(formationId: number, agentId: string): Posture {
+        const formation = this.formations.get(formationId);
+        const track = this.leaders.get(formationId);
+        if (!formation || !track) return 'WALK';
+
+        const slot = this.getSlot(formationId, agentId);
+        const position = WorldRegistry.getInstance().getPosition(agentId);
+        if (slot && position && position.distanceTo(slot) > CATCH_UP_DISTANCE) return 'RUN';
+
+        const leader = this.manager.getCapabilityEngine(formation.leaderId);
+        if (leader) return leader.getPosture();
+        return track.speed > RUN_SPEED ? 'RUN' : 'WALK';
+    }
+
+    /** Every frame: follow the leaders, sync membership with the squads, move the slots */
+    public update(delta: number) {
+        const registry = WorldRegistry.getInstance();
+
+        for (const formation of Array.from(this.formations.values())) {
+            const leaderPos = registry.getPosition(formation.leaderId);
+            if (!leaderPos) {
+                this.disband(formation.id);
+                continue;
+            }
+            this.trackLeader(formation.id, leaderPos, delta);
+            this.syncMembers(formation);
+            this.placeSlots(formation);
+        }
+    }
+
+    private enlist(formation: Formation, agentId: string, queued: boolean = false) {
+        // Member first, so the slot exists when the order starts
+        formation.members.push(agentId);
+        this.placeSlots(formation);
+        const id = this.manager.sendCommand(
+            agentId,
+            { type: 'KEEP_FORMATION', params: { formation: formation.id } },
+            { source: formation.source, mode: queued ? 'QUEUE' : 'INTERRUPT' }
+        );
+        if (id === null) {
+            formation.members = formation.members.filter(m => m !== agentId);
+            this.declined.get(formation.id)?.add(agentId);
+        }
+    }
+
+    private syncMembers(formation: Formation) {
+        const squad = this.manager.getSquadMembers(formation.group).filter(id => id !== formation.leaderId);
+        const declined = this.declined.get(formation.id)!;
+
+        const gone = formation.members.filter(id => !squad.includes(id));
+        const joined = squad.filter(id => !formation.members.includes(id) && !declined.has(id));
+        if (gone.length === 0 && joined.length === 0) return;
+
+        gone.forEach(id => this.leave(formation.id, id));
+        joined.forEach(id => this.enlist(formation, id));
+        this.assignSlots(formation);
+    }
+
+    private trackLeader(formationId: number, position: THREE.Vector3, delta: number) {
+        const track = this.leaders.get(formationId)!;
+        if (delta <= 0) return;
+
+        const dx = position.x - track.position.x;
+        const dz = position.z - track.position.z;
+        const speed = Math.sqrt(dx * dx + dz * dz) / delta;
+        track.speed += (speed - track.speed) * SPEED_SMOOTHING;
+        if (speed > MOVING_SPEED) track.heading = Math.atan2(dx, dz);
+        track.position.copy(position);
+    }
+
+    /** Slot i relative to the leader: x to its right, z ahead of it (members are behind or beside) */
+    private slotOffset(shape: FormationShape, index: number, count: number): { x: number; z: number } {
+        const rank = Math.floor(index / 2) + 1;
+        const side = index % 2 === 0 ? 1 : -1;
+        switch (shape) {
+            case 'LINE':
+                return { x: side * rank * SPACING, z: 0 };
+            case 'COLUMN':
+                return { x: 0, z: -(index + 1) * SPACING };
+            case 'WEDGE':
+                return { x: side * rank * SPACING, z: -rank * SPACING };
+            case 'CIRCLE': {
+                const radius = Math.max(MIN_CIRCLE_RADIUS, (count * SPACING) / (2 * Math.PI));
+                const angle = (index / count) * Math.PI * 2;
+                return { x: Math.sin(angle) * radius, z: Math.cos(angle) * radius };
+            }
+        }
+    }
+
+    /** World position of every slot, from the leader's (or center's) current position and heading */
+    private slotPositions(formation: Formation): THREE.Vector3[] {
+        const track = this.leaders.get(formation.id)!;
+        const center = formation.shape === 'CIRCLE'
+            ? WorldRegistry.getInstance().getPosition(formation.centerId) ?? track.position
+            : track.position;
+        const heading = formation.shape === 'CIRCLE' ? 0 : track.heading;
+        const cos = Math.cos(heading);
+        const sin = Math.sin(heading);
+
+        return formation.members.map((_, i) => {
+            const { x, z } = this.slotOffset(formation.shape, i, formation.members.length);
+            // Rotate the local offset by the heading (yaw about +Y, forward = +Z)
+            return new THREE.Vector3(center.x + x * cos + z * sin, center.y, center.z - x * sin + z * cos);
+        });
+    }
+
+    private placeSlots(formation: Formation) {
+        const positions = this.slotPositions(formation);
+        this.slots.set(formation.id, new Map(formation.members.map((id, i) => [id, positions[i]])));
+    }
+
+    /** Reorder members so each slot (front first) goes to the nearest one not yet placed */
+    private assignSlots(formation: Formation) {
+        const registry = WorldRegistry.getInstance();
+        const positions = this.slotPositions(formation);
+        const unassigned = [...formation.members];
+        const ordered: string[] = [];
+
+        for (const slot of positions) {
+            let best = 0;
+            let bestDistance = Infinity;
+            unassigned.forEach((id, i) => {
+                const distance = registry.getPosition(id)?.distanceTo(slot) ?? Infinity;
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    best = i;
+                }
+            });
+            ordered.push(unassigned.splice(best, 1)[0]);
+        }
+
+        formation.members = ordered;
+        this.placeSlots(formation);
+    }
+
+    private remove(formationId: number) {
+        this.formations.delete(formationId);
+        this.leaders.delete(formationId);
+        this.slots.delete(formationId);
+        this.declined.delete(formationId);
+    }
+}
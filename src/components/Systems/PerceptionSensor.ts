@@ -0,0 +1,121 @@
+import * as THREE from 'three';
+import AIManager from './AIManager';
+import { WorldRegistry } from '@/lib/yuka-oracle';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type PerceptionEventKind = 'PLAYER_ENTERED_RANGE' | 'AGENT_WAVED' | 'FAST_APPROACH';
+
+export interface PerceptionEvent {
+    kind: PerceptionEventKind;
+    sourceId: string;
+    sourceType: 'PLAYER' | 'AGENT';
+    distance: number;
+    /** Plain-text stimulus handed to the Limbic layer */
+    description: string;
+}
+
+// =============================================================================
+// PERCEPTION SENSOR (Reflex Triggers)
+// =============================================================================
+
+/**
+ * Watches the WorldRegistry for events worth an instant reaction.
+ * Cheap enough to poll every few frames; each (event, source) pair
+ * has a cooldown so a lingering player doesn't spam the Limbic layer.
+ */
+export class PerceptionSensor {
+    private selfId: string;
+    private lastDistances: Map<string, { distance: number; time: number }> = new Map();
+    private cooldowns: Map<string, number> = new Map();
+    private greeted: Set<string> = new Set(); // In range and already reported; cleared when they leave
+
+    private readonly RANGE = 12.0;            // Player "enters range" radius
+    private readonly WAVE_RANGE = 20.0;       // Waves seen from this far
+    private readonly APPROACH_RANGE = 20.0;
+    private readonly APPROACH_SPEED = 8.0;    // Closing speed (m/s) that counts as rushing
+    private readonly COOLDOWN_MS = 15000;
+
+    constructor(selfId: string) {
+        this.selfId = selfId;
+    }
+
+    /** Returns the most urgent new event, or null */
+    public sense(position: THREE.Vector3, now: number = Date.now()): PerceptionEvent | null {
+        const registry = WorldRegistry.getInstance();
+        const aiManager = AIManager.getInstance();
+
+        const sources: { id: string; type: 'PLAYER' | 'AGENT' }[] = [
+            { id: 'player-01', type: 'PLAYER' },
+            ...aiManager.getAgentIds()
+                .filter(id => id !== this.selfId)
+                .map(id => ({ id, type: 'AGENT' as const }))
+        ];
+
+        let best: PerceptionEvent | null = null;
+
+        for (const source of sources) {
+            const pos = registry.getPosition(source.id);
+            if (!pos) continue;
+
+            const distance = position.distanceTo(pos);
+            const previous = this.lastDistances.get(source.id);
+            this.lastDistances.set(source.id, { distance, time: now });
+
+            const candidates: PerceptionEvent[] = [];
+
+            // 1. Rushing towards us (most urgent)
+            if (previous && distance < this.APPROACH_RANGE) {
+                const elapsed = (now - previous.time) / 1000;
+                const closingSpeed = elapsed > 0 ? (previous.distance - distance) / elapsed : 0;
+                if (closingSpeed > this.APPROACH_SPEED) {
+                    candidates.push({
+                        kind: 'FAST_APPROACH', sourceId: source.id, sourceType: source.type, distance,
+                        description: `${source.type} ${source.id} is rushing towards you (${closingSpeed.toFixed(1)}m/s, ${distance.toFixed(1)}m away)`
+                    });
+                }
+            }
+
+            // 2. Another agent waving at us (or at nobody in particular)
+            if (source.type === 'AGENT' && distance < this.WAVE_RANGE) {
+                const command = aiManager.getCapabilityEngine(source.id)?.currentCommand;
+                if (command?.type === 'GESTURE_WAVE' && (!command.params?.target || command.params.target === this.selfId)) {
+                    candidates.push({
+                        kind: 'AGENT_WAVED', sourceId: source.id, sourceType: source.type, distance,
+                        description: `AGENT ${source.id} waves at you (${distance.toFixed(1)}m away)`
+                    });
+                }
+            }
+
+            // 3. Player in range and not reported since they last left it
+            // (a level state, so a crossing that loses to a more urgent event is still reported later)
+            if (source.type === 'PLAYER' && distance >= this.RANGE) this.greeted.delete(source.id);
+            if (source.type === 'PLAYER' && distance < this.RANGE && !this.greeted.has(source.id)) {
+                candidates.push({
+                    kind: 'PLAYER_ENTERED_RANGE', sourceId: source.id, sourceType: source.type, distance,
+                    description: `PLAYER ${source.id} came into view (${distance.toFixed(1)}m away)`
+                });
+            }
+
+            for (const event of candidates) {
+                const key = `${event.kind}:${event.sourceId}`;
+                if (now < (this.cooldowns.get(key) ?? 0)) continue;
+                if (!best || PRIORITY[event.kind] > PRIORITY[best.kind]) best = event;
+            }
+        }
+
+        if (best) {
+            this.cooldowns.set(`${best.kind}:${best.sourceId}`, now + this.COOLDOWN_MS);
+            if (best.kind === 'PLAYER_ENTERED_RANGE') this.greeted.add(best.sourceId);
+        }
+        return best;
+    }
+}
+
+const PRIORITY: Record<PerceptionEventKind, number> = {
+    FAST_APPROACH: 3,
+    AGENT_WAVED: 2,
+    PLAYER_ENTERED_RANGE: 1
+};
@@ -3,6 +3,7 @@ import { useFrame } from '@react-three/fiber';
 import { Sky, Stars } from '@react-three/drei';
 import * as THREE from 'three';
 import { useGameStore } from '@/store/gameStore';
+import { notifyDayPhase } from '@/app/actions';
 
 export default function TimeSystem() {
     // 0 = Midnight, 6 = Sunrise, 12 = Noon, 18 = Sunset, 24 = Midnight
@@ -52,6 +53,8 @@ export default function TimeSystem() {
         if (isNight !== prevIsNight.current) {
             prevIsNight.current = isNight;
             setIsNight(isNight);
+            // Agents dream at night (server-side memory consolidation)
+            notifyDayPhase(isNight).catch(e => console.error("[TimeSystem] Day phase sync failed:", e));
         }
 
         // Colors
@@ -0,0 +1,219 @@
+import * as THREE from 'three';
+import { useGameStore } from '@/store/gameStore';
+import { createContextMixer, type ActiveGoal, type ContextMixer, type EmotionalState } from '@/lib/context-mixer';
+import { applyPersona, getPersona, type Persona } from '@/lib/personas';
+import { WorldRegistry } from '@/lib/yuka-oracle';
+import AIManager from './AIManager';
+import type { CapabilityCommand } from '@/lib/capability-engine';
+import type { CapabilityOutcome } from '@/lib/capabilities';
+import type { NearbyEntity } from '@/app/actions';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Drives that build up over time (0 = satisfied, 1 = urgent) */
+export interface Needs {
+    social: number;
+    rest: number;
+    duty: number;
+}
+
+export interface UtilityDecision {
+    /** null = the best option is what the agent is already doing */
+    command: CapabilityCommand | null;
+    thought: string;
+    score: number;
+}
+
+interface Option {
+    command: CapabilityCommand;
+    score: number;
+    thought: string;
+}
+
+/** Per-second growth of each need; rest builds faster at night */
+const NEED_RATES: Needs = { social: 0.01, rest: 0.004, duty: 0.006 };
+const NIGHT_REST_FACTOR = 3;
+/** Score bonus for continuing the current behavior, so the agent doesn't dither */
+const INERTIA = 0.1;
+/** Closer than this to a goal anchor counts as "there" */
+const ARRIVAL_DISTANCE = 6;
+/** Seats further away than this aren't worth the walk for a rest */
+const SEAT_RANGE = 30;
+/** A landmark we failed to reach is skipped for this long */
+const UNREACHABLE_MS = 120000;
+
+// =============================================================================
+// UTILITY BRAIN (Offline Fallback)
+// =============================================================================
+
+/**
+ * Local decision maker for when the LLM is switched off or unavailable.
+ * Scores every allowed capability from perception, the agent's needs,
+ * its persona goals (via its own ContextMixer) and the time of day,
+ * then issues the best one. No network, runs every think tick.
+ */
+export class UtilityBrain {
+    private id: string;
+    private persona: Persona;
+    private mixer: ContextMixer;
+    private needs: Needs = { social: 0.3, rest: 0.1, duty: 0.5 };
+    private lastUpdate: number = Date.now();
+    /** Landmark id -> time until which it's considered unreachable */
+    private unreachable: Map<string, number> = new Map();
+
+    constructor(id: string) {
+        this.id = id;
+        this.persona = getPersona(id);
+        this.mixer = createContextMixer(id);
+        applyPersona(this.mixer, this.persona);
+    }
+
+    public getNeeds(): Needs {
+        return { ...this.needs };
+    }
+
+    /** Persona temperament, shifted by company and by what the agent reacts to */
+    public getMood(): EmotionalState {
+        return this.mixer.getAmygdala().getState();
+    }
+
+    /** Shift the mood; called with zeros it just drifts back toward the temperament */
+    public feel(valenceDelta: number, arousalDelta: number): void {
+        this.mixer.getAmygdala().update(valenceDelta, arousalDelta);
+    }
+
+    /** Remember landmarks we couldn't get to, so we don't walk into the same wall again */
+    public recordOutcome(command: CapabilityCommand, outcome: CapabilityOutcome, now: number = Date.now()): void {
+        if (command.type !== 'NAVIGATE_TO_ANCHOR' || typeof command.params?.target !== 'string') return;
+        if (outcome.status === 'FAILED') this.unreachable.set(command.params.target, now + UNREACHABLE_MS);
+        else if (outcome.status === 'SUCCEEDED') this.unreachable.delete(command.params.target);
+    }
+
+    public decide(
+        position: THREE.Vector3,
+        nearbyEntities: NearbyEntity[],
+        currentBehavior: string,
+        allowedCommands: string[] = [],
+        now: number = Date.now()
+    ): UtilityDecision {
+        const isNight = useGameStore.getState().isNight;
+        this.updateNeeds(position, nearbyEntities, currentBehavior, isNight, now);
+
+        const options = this.scoreOptions(position, nearbyEntities, isNight)
+            .filter(o => allowedCommands.length === 0 || allowedCommands.includes(o.command.type))
+            .map(o => o.command.type === currentBehavior ? { ...o, score: o.score + INERTIA } : o)
+            .sort((a, b) => b.score - a.score);
+
+        const best = options[0];
+        if (!best) {
+            return { command: null, thought: 'Nothing I am allowed to do.', score: 0 };
+        }
+
+        return {
+            command: best.command.type === currentBehavior ? null : best.command,
+            thought: best.thought,
+            score: best.score
+        };
+    }
+
+    private scoreOptions(position: THREE.Vector3, nearbyEntities: NearbyEntity[], isNight: boolean): Option[] {
+        const { social, rest, duty } = this.needs;
+        const mood = this.mixer.getAmygdala().getState();
+        const player = nearbyEntities.find(e => e.type === 'PLAYER');
+        const goal = this.findGoalAnchor(position);
+        const seat = this.findFreeSeat(position);
+
+        const options: Option[] = [
+            {
+                command: { type: 'IDLE', posture: 'WALK' },
+                score: rest * (isNight ? 1.2 : 0.8),
+                thought: isNight ? 'Getting late. Time to rest.' : 'Taking a breather.'
+            },
+            {
+                command: { type: 'HOLD_POSITION' },
+                score: 0.15,
+                thought: 'Staying put for now.'
+            }
+        ];
+
+        if (seat) {
+            options.push({
+                command: { type: 'SIT_ON', params: { target: seat }, posture: 'WALK' },
+                score: rest * (isNight ? 1.3 : 0.9) + 0.05,
+                thought: 'My legs could use a break. There is a seat over there.'
+            });
+        }
+
+        if (player) {
+            const closeness = 1 - Math.min(player.distance, 30) / 30;
+            const friendliness = mood.valence;
+
+            if (player.distance < 10) {
+                options.push({
+                    command: { type: 'GESTURE_WAVE', params: { target: player.id ?? 'player-01' } },
+                    score: social * 0.6 + closeness * 0.3 + friendliness * 0.2,
+                    thought: 'Someone is right here. Hello!'
+                });
+            }
+            options.push({
+                command: { type: 'SOCIAL_INTERACT', params: { target: player.id ?? 'player-01' }, posture: 'WALK' },
+                score: social * 0.8 + closeness * 0.2 + friendliness * 0.1 - rest * 0.3,
+                thought: 'I feel like talking to someone.'
+            });
+        }
+
+        if (goal && goal.distance > ARRIVAL_DISTANCE) {
+            options.push({
+                command: { type: 'NAVIGATE_TO_ANCHOR', params: { target: goal.anchor }, posture: 'WALK' },
+                score: duty * goal.goal.priority * (isNight ? 0.5 : 1) + 0.1,
+                thought: `${goal.goal.description}. Heading to ${goal.anchor}.`
+            });
+        }
+
+        return options;
+    }
+
+    /** Needs grow with time; being near people, resting and reaching goals satisfy them */
+    private updateNeeds(position: THREE.Vector3, nearbyEntities: NearbyEntity[], currentBehavior: string, isNight: boolean, now: number): void {
+        const dt = Math.min((now - this.lastUpdate) / 1000, 60);
+        this.lastUpdate = now;
+
+        const clamp = (v: number) => Math.max(0, Math.min(1, v));
+        const company = nearbyEntities.some(e => e.distance < 8);
+        const resting = currentBehavior === 'IDLE' || currentBehavior === 'HOLD_POSITION' || currentBehavior === 'SIT_ON';
+        const goal = this.findGoalAnchor(position);
+
+        this.needs.social = clamp(this.needs.social + (company ? -3 : 1) * NEED_RATES.social * dt);
+        this.needs.rest = clamp(this.needs.rest + (resting ? -2 : isNight ? NIGHT_REST_FACTOR : 1) * NEED_RATES.rest * dt);
+        this.needs.duty = clamp(goal && goal.distance <= ARRIVAL_DISTANCE
+            ? this.needs.duty - 4 * NEED_RATES.duty * dt
+            : this.needs.duty + NEED_RATES.duty * dt);
+
+        this.mixer.getAmygdala().update(company ? 0.01 : -0.005, 0);
+    }
+
+    /** Nearest seat within SEAT_RANGE nobody else has taken */
+    private findFreeSeat(position: THREE.Vector3): string | null {
+        const manager = AIManager.getInstance();
+        const seat = WorldRegistry.getInstance().getNearestAnchor(position, ['Seat']);
+        if (!seat || seat.position.distanceTo(position) > SEAT_RANGE) return null;
+        const holder = manager.getReservation(seat.id);
+        return !holder || holder === this.id ? seat.id : null;
+    }
+
+    /** Top goal that names a known, reachable landmark (e.g. "Keep the ConstructionSite running") */
+    private findGoalAnchor(position: THREE.Vector3): { goal: ActiveGoal; anchor: string; distance: number } | null {
+        const registry = WorldRegistry.getInstance();
+        const now = Date.now();
+        for (const goal of this.mixer.getFrontal().getGoals()) {
+            for (const word of goal.description.split(/\W+/)) {
+                if (!word || word === this.id || (this.unreachable.get(word) ?? 0) > now) continue;
+                const anchorPos = registry.getPosition(word);
+                if (anchorPos) return { goal, anchor: word, distance: anchorPos.distanceTo(position) };
+            }
+        }
+        return null;
+    }
+}
@@ -1,8 +1,28 @@
+import { useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import AIManager from './AIManager';
+import { useGameStore } from '@/store/gameStore';
+import { NavMesh } from '@/lib/nav-mesh';
+import { WorldRegistry } from '@/lib/yuka-oracle';
+
+/** Meshes and obstacles register one by one as the world loads; rebuild once they settle */
+const NAVMESH_DEBOUNCE_MS = 1000;
 
 export default function YukaSystem() {
     const aiManager = AIManager.getInstance();
+    const collidableMeshes = useGameStore((state) => state.collidableMeshes);
+    const obstacles = useGameStore((state) => state.obstacles);
+
+    useEffect(() => {
+        if (collidableMeshes.length === 0) return;
+        const timer = setTimeout(() => {
+            const started = performance.now();
+            const navMesh = NavMesh.fromMeshes(collidableMeshes, obstacles);
+            WorldRegistry.getInstance().setNavMesh(navMesh);
+            console.log(`[NavMesh] ${navMesh.walkableCount} walkable cells in ${(performance.now() - started).toFixed(0)}ms`);
+        }, NAVMESH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [collidableMeshes, obstacles]);
 
     useFrame((state, delta) => {
         // Update the global AI manager
@@ -1,16 +1,35 @@
 "use client";
 import React, { useState, useEffect, useRef } from 'react';
 import { useInteractionStore } from '@/store/interactionStore';
+import { useChatStore } from '@/store/chatStore';
+import { getPersona } from '@/lib/personas';
 import AIManager from '../Systems/AIManager';
+import type { CapabilityCommand, QueueMode } from '@/lib/capability-engine';
 
-const COMMANDS = [
+interface MenuItem {
+    label: string;
+    cmd?: CapabilityCommand;
+    /** Let go of held orders, the agent decides for itself again */
+    release?: boolean;
+    isInput?: boolean;
+}
+
+// Player orders hold (follow / wait) or run to completion (go to) until released.
+// Formations are passed on by this agent to everyone (its own slot order waits until it has)
+const COMMANDS: MenuItem[] = [
     { label: "Follow Me", cmd: { type: "FOLLOW_ENTITY", params: { target: "player-01" } } },
     { label: "Wait Here", cmd: { type: "HOLD_POSITION" } },
     { label: "Patrol Area", cmd: { type: "NAVIGATE_TO_ANCHOR", params: { target: "PatrolPointA" } } },
     { label: "Go to Office", cmd: { type: "NAVIGATE_TO_ANCHOR", params: { target: "Office" } } },
-    { label: "Ask Question...", isInput: true }
+    { label: "Form Up", cmd: { type: "FORMATION", params: { shape: "WEDGE", group: "all", leader: "player-01" } } },
+    { label: "Circle Me", cmd: { type: "FORMATION", params: { shape: "CIRCLE", group: "all", leader: "player-01" } } },
+    { label: "Break Formation", cmd: { type: "FORMATION", params: { shape: "BREAK", group: "all", leader: "player-01" } } },
+    { label: "Carry On", release: true },
+    { label: "Talk...", isInput: true }
 ];
 
+const CHAT_LINES = 8; // Conversation lines shown above the input
+
 export const AgentInteractionUI = () => {
     const { isOpen, targetAgentId, closeInteraction } = useInteractionStore();
     const [selectedIndex, setSelectedIndex] = useState(0);
@@ -18,6 +37,11 @@ export const AgentInteractionUI = () => {
     const [prompt, setPrompt] = useState("");
     const [isSending, setIsSending] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
+    const say = useChatStore((state) => state.say);
+    const chatLog = useChatStore((state) => state.log);
+    const isReplying = useChatStore((state) => targetAgentId ? !!state.awaiting[targetAgentId] : false);
+    const conversation = chatLog.filter(entry => entry.agentId === targetAgentId).slice(-CHAT_LINES);
+    const agentName = targetAgentId ? getPersona(targetAgentId).name : '';
 
     // Reset state on open
     useEffect(() => {
@@ -35,20 +59,18 @@ export const AgentInteractionUI = () => {
         }
     }, [isInputMode]);
 
-    const handleCommand = async (command: any) => {
+    // Free text goes to the agent's brain (picked up in useYukaAI); the dialog stays open for the reply
+    const handleSay = (text: string) => {
+        say(targetAgentId!, text);
+        setPrompt("");
+    };
+
+    const handleCommand = async (command: CapabilityCommand, mode: QueueMode = 'INTERRUPT') => {
         setIsSending(true);
         console.log(`Sending command to ${targetAgentId}:`, command);
 
-        if (typeof command === 'string') {
-            // Text Input - Treat as Thought Injection or Custom Prompt
-            AIManager.getInstance().sendCommand(targetAgentId!, {
-                type: "INTERNAL_THOUGHT",
-                params: { thought: `User says: "${command}"` }
-            });
-        } else {
-            // Capability Command
-            AIManager.getInstance().sendCommand(targetAgentId!, command);
-        }
+        // Capability Command (player orders outrank the agent's own plans)
+        AIManager.getInstance().sendCommand(targetAgentId!, command, { source: 'PLAYER', mode });
 
         // Simulation delay for "Transmission" effect
         await new Promise(r => setTimeout(r, 400));
@@ -57,6 +79,17 @@ export const AgentInteractionUI = () => {
         closeInteraction();
     };
 
+    const handleRelease = () => {
+        AIManager.getInstance().releaseOrders(targetAgentId!);
+        closeInteraction();
+    };
+
+    const activate = (item: MenuItem, mode: QueueMode = 'INTERRUPT') => {
+        if (item.isInput) setIsInputMode(true);
+        else if (item.release) handleRelease();
+        else if (item.cmd) handleCommand(item.cmd, mode);
+    };
+
     // Keyboard Navigation
     useEffect(() => {
         if (!isOpen) return;
@@ -85,22 +118,19 @@ export const AgentInteractionUI = () => {
                 case 'e': // Confirm with E (common gaming trope) or Space
                 case 'Space':
                     e.preventDefault();
-                    const selected = COMMANDS[selectedIndex];
-                    if (selected.isInput) {
-                        setIsInputMode(true);
-                    } else {
-                        handleCommand(selected.cmd);
-                    }
+                    activate(COMMANDS[selectedIndex]);
+                    break;
+                case 'q': // Queue after the current order instead of replacing it
+                    activate(COMMANDS[selectedIndex], 'APPEND');
                     break;
                 case 'Escape':
                     closeInteraction();
                     break;
-                // Quick Keys 1-5
-                case '1': if (COMMANDS[0] && !COMMANDS[0].isInput) handleCommand(COMMANDS[0].cmd); break;
-                case '2': if (COMMANDS[1] && !COMMANDS[1].isInput) handleCommand(COMMANDS[1].cmd); break;
-                case '3': if (COMMANDS[2] && !COMMANDS[2].isInput) handleCommand(COMMANDS[2].cmd); break;
-                case '4': if (COMMANDS[3] && !COMMANDS[3].isInput) handleCommand(COMMANDS[3].cmd); break;
-                case '5': setIsInputMode(true); break;
+                default: {
+                    // Quick Keys 1-9
+                    const item = COMMANDS[Number(e.key) - 1];
+                    if (item) activate(item);
+                }
             }
         };
 
@@ -152,13 +182,26 @@ export const AgentInteractionUI = () => {
                         flexDirection: 'column',
                         gap: '10px'
                     }}>
-                        <div style={{ fontSize: '14px', color: '#00d4ff' }}>TRANSMIT THOUGHT</div>
+                        <div style={{ fontSize: '14px', color: '#00d4ff' }}>TALK TO {agentName.toUpperCase()}</div>
+                        {conversation.length > 0 && (
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', maxHeight: '240px', overflowY: 'auto', fontSize: '14px' }}>
+                                {conversation.map(entry => (
+                                    <div key={entry.id} style={{ color: entry.from === 'PLAYER' ? '#bbb' : 'white' }}>
+                                        <span style={{ color: entry.from === 'PLAYER' ? '#888' : '#00d4ff', marginRight: '6px' }}>
+                                            {entry.from === 'PLAYER' ? 'You:' : `${agentName}:`}
+                                        </span>
+                                        {entry.text}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {isReplying && <div style={{ fontSize: '12px', color: '#888', fontStyle: 'italic' }}>{agentName} is thinking...</div>}
                         <input
                             ref={inputRef}
                             type="text"
                             value={prompt}
                             onChange={e => setPrompt(e.target.value)}
-                            placeholder="Type instructions..."
+                            placeholder="Say something..."
                             style={{
                                 background: 'transparent',
                                 border: 'none',
@@ -169,8 +212,8 @@ export const AgentInteractionUI = () => {
                                 outline: 'none'
                             }}
                             onKeyDown={e => {
-                                if (e.key === 'Enter' && prompt.trim()) {
-                                    handleCommand(prompt);
+                                if (e.key === 'Enter' && prompt.trim() && !isReplying) {
+                                    handleSay(prompt.trim());
                                 }
                             }}
                         />
@@ -218,7 +261,7 @@ export const AgentInteractionUI = () => {
                         color: 'rgba(255,255,255,0.5)',
                         textShadow: '0 1px 2px black'
                     }}>
-                        [W/S] NAVIGATE  [E] SELECT  [ESC] CLOSE
+                        [W/S] NAVIGATE  [E] SELECT  [Q] QUEUE  [ESC] CLOSE
                     </div>
                 )}
             </div>
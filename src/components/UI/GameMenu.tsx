@@ -2,6 +2,16 @@
 
 import React, { useState, useEffect } from 'react';
 import { useGameStore } from '@/store/gameStore';
+import { getContractReport, getModelCapacity, getUsageReport, resetAgentSession, setUsageBudget } from '@/app/actions';
+import type { ContractStats } from '@/lib/llm-schemas';
+import type { BudgetStatus, UsageReport, UsageTotals } from '@/lib/usage-ledger';
+import type { ModelCapacity } from '@/lib/model-rate-limiter';
+import type { BrainLayer, ModelSelection } from '@/lib/llm-provider';
+import { getAvailableModels } from '@/lib/groq';
+import { PERSONAS, getPersona } from '@/lib/personas';
+import { listRegisteredCapabilities } from '@/lib/capability-registry';
+import AIManager from '../Systems/AIManager';
+import type { BrainKind } from '../Systems/ClientBrain';
 
 type MenuTab = 'gameplay' | 'graphics' | 'controls' | 'ai_console' | 'map';
 
@@ -136,29 +146,54 @@ export default function GameMenu() {
                                     label="Connect to Cloud Brain (LLM)"
                                     checked={aiSettings.llmEnabled}
                                     onChange={(v) => setAISetting({ llmEnabled: v })}
-                                    description="Allow agents to use external LLMs for complex decision making."
+                                    description="Allow agents to use external LLMs for complex decision making. When off or unreachable, a local utility brain takes over."
                                     disabled={!aiSettings.enabled}
                                 />
+                                <div style={{ height: '16px' }} />
+                                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                                    <div>
+                                        <div style={{ fontSize: '16px', fontWeight: 500 }}>Agent Memory</div>
+                                        <div style={{ fontSize: '12px', color: '#888', marginTop: '4px' }}>Wipe memories, relationships and goals of every agent.</div>
+                                    </div>
+                                    <button
+                                        onClick={() => resetAgentSession()}
+                                        style={{
+                                            padding: '6px 14px',
+                                            borderRadius: '6px',
+                                            border: '1px solid rgba(255,255,255,0.1)',
+                                            backgroundColor: 'transparent',
+                                            color: '#ff6b6b',
+                                            cursor: 'pointer'
+                                        }}
+                                    >
+                                        Reset
+                                    </button>
+                                </div>
                             </div>
 
                             {aiSettings.enabled && (
                                 <>
                                     <h3 style={{ fontSize: '14px', color: '#888', marginBottom: '15px', textTransform: 'uppercase', letterSpacing: '1px' }}>Allowed Capabilities</h3>
                                     <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '10px' }}>
-                                        {['FOLLOW_ENTITY', 'NAVIGATE_TO_ANCHOR', 'NAVIGATE_TO_COORD', 'SOCIAL_INTERACT', 'HOLD_POSITION'].map(cmd => (
+                                        {listRegisteredCapabilities().map(({ name: cmd }) => (
                                             <Checkbox
                                                 key={cmd}
                                                 label={cmd.replace(/_/g, ' ')}
-                                                checked={aiSettings.allowedCommands.includes(cmd)}
+                                                checked={!aiSettings.disabledCommands.includes(cmd)}
                                                 onChange={(checked) => {
                                                     const newCmds = checked
-                                                        ? [...aiSettings.allowedCommands, cmd]
-                                                        : aiSettings.allowedCommands.filter(c => c !== cmd);
-                                                    setAISetting({ allowedCommands: newCmds });
+                                                        ? aiSettings.disabledCommands.filter(c => c !== cmd)
+                                                        : [...aiSettings.disabledCommands, cmd];
+                                                    setAISetting({ disabledCommands: newCmds });
                                                 }}
                                             />
                                         ))}
                                     </div>
+
+                                    <BrainPanel />
+                                    <ModelPanel />
+                                    <ContractPanel />
+                                    <UsagePanel />
                                 </>
                             )}
                         </div>
@@ -343,6 +378,255 @@ function Checkbox({ label, checked, onChange }: { label: string, checked: boolea
     );
 }
 
+const BRAIN_COLORS: Record<BrainKind, string> = {
+    LLM: '#00d4ff',
+    UTILITY: '#ffb347'
+};
+
+/** Which brain (LLM or offline utility) is driving each agent right now */
+function BrainPanel() {
+    const [rows, setRows] = useState<{ id: string; brain: BrainKind; thought: string }[]>([]);
+
+    useEffect(() => {
+        const poll = () => {
+            const manager = AIManager.getInstance();
+            setRows(manager.getAgentIds().flatMap(id => {
+                const brain = manager.getBrain(id);
+                return brain ? [{ id, brain: brain.state.activeBrain, thought: brain.state.thought }] : [];
+            }));
+        };
+        poll();
+        const interval = setInterval(poll, 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    return (
+        <div style={{ marginTop: '30px' }}>
+            <h3 style={{ fontSize: '14px', color: '#888', marginBottom: '15px', textTransform: 'uppercase', letterSpacing: '1px' }}>Active Brains</h3>
+            {rows.length === 0 ? (
+                <div style={{ fontSize: '13px', color: '#666' }}>No agents in the scene.</div>
+            ) : rows.map(row => (
+                <div key={row.id} style={{ display: 'flex', gap: '10px', alignItems: 'baseline', padding: '6px 0', borderTop: '1px solid rgba(255,255,255,0.05)', fontSize: '13px' }}>
+                    <span style={{ minWidth: '90px' }}>{getPersona(row.id).name}</span>
+                    <span style={{ minWidth: '70px', fontSize: '11px', color: BRAIN_COLORS[row.brain] }}>{row.brain}</span>
+                    <span style={{ color: '#888', fontStyle: 'italic', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{row.thought}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+const BRAIN_LAYERS: BrainLayer[] = ['LIMBIC', 'NEOCORTEX', 'DREAMER'];
+
+/** Model picker per brain layer, for every agent or one of them */
+function ModelPanel() {
+    const aiSettings = useGameStore((state) => state.aiSettings);
+    const setModelSelection = useGameStore((state) => state.setModelSelection);
+    const [scope, setScope] = useState<string>('all');
+
+    const agentId = scope === 'all' ? undefined : scope;
+    const selection: ModelSelection = agentId ? aiSettings.agentModels[agentId] ?? {} : aiSettings.models;
+    const selectStyle = { background: 'rgba(0,0,0,0.3)', border: '1px solid rgba(255,255,255,0.1)', color: '#fff', borderRadius: '6px', padding: '4px 8px', fontSize: '12px' };
+
+    return (
+        <div style={{ marginTop: '30px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+                <h3 style={{ fontSize: '14px', color: '#888', margin: 0, textTransform: 'uppercase', letterSpacing: '1px' }}>Models</h3>
+                <select value={scope} onChange={(e) => setScope(e.target.value)} style={selectStyle}>
+                    <option value="all">All agents</option>
+                    {Object.values(PERSONAS).map(persona => (
+                        <option key={persona.id} value={persona.id}>{persona.name} ({persona.id})</option>
+                    ))}
+                </select>
+            </div>
+            <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '10px' }}>
+                {BRAIN_LAYERS.map(layer => (
+                    <label key={layer} style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '12px', color: '#888' }}>
+                        {layer}
+                        <select
+                            value={selection[layer] ?? ''}
+                            onChange={(e) => setModelSelection(layer, e.target.value || null, agentId)}
+                            style={selectStyle}
+                        >
+                            <option value="">{agentId ? 'Same as all agents' : 'Automatic (routed)'}</option>
+                            {getAvailableModels().map(model => (
+                                <option key={model.id} value={model.id}>{model.name}</option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function ContractPanel() {
+    const [report, setReport] = useState<Record<string, ContractStats>>({});
+
+    const refresh = () => {
+        getContractReport().then(setReport);
+    };
+
+    useEffect(() => {
+        getContractReport().then(setReport);
+    }, []);
+
+    const models = Object.entries(report);
+
+    return (
+        <div style={{ marginTop: '30px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+                <h3 style={{ fontSize: '14px', color: '#888', margin: 0, textTransform: 'uppercase', letterSpacing: '1px' }}>Output Contract</h3>
+                <button onClick={refresh} style={{ background: 'transparent', border: '1px solid rgba(255,255,255,0.1)', color: '#888', borderRadius: '6px', padding: '4px 10px', cursor: 'pointer', fontSize: '12px' }}>Refresh</button>
+            </div>
+            {models.length === 0 ? (
+                <div style={{ fontSize: '13px', color: '#666' }}>No validated responses yet.</div>
+            ) : (
+                <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ color: '#666', textAlign: 'left' }}>
+                            <th style={{ padding: '6px 0', fontWeight: 500 }}>Model</th>
+                            <th style={{ fontWeight: 500 }}>Calls</th>
+                            <th style={{ fontWeight: 500 }}>Valid</th>
+                            <th style={{ fontWeight: 500 }}>Repaired</th>
+                            <th style={{ fontWeight: 500 }}>Failed</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {models.map(([model, stats]) => (
+                            <tr key={model} style={{ borderTop: '1px solid rgba(255,255,255,0.05)' }} title={stats.lastErrors.join('\n')}>
+                                <td style={{ padding: '6px 0', color: '#00d4ff' }}>{model.split('/').pop()}</td>
+                                <td>{stats.calls}</td>
+                                <td>{stats.valid}</td>
+                                <td style={{ color: stats.repaired > 0 ? '#ffb347' : undefined }}>{stats.repaired}</td>
+                                <td style={{ color: stats.failed > 0 ? '#ff6b6b' : undefined }}>{stats.failed}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    );
+}
+
+const BUDGET_COLORS: Record<BudgetStatus, string> = {
+    OK: '#00ff88',
+    DOWNGRADE: '#ffb347',
+    PAUSED: '#ff6b6b'
+};
+
+function UsagePanel() {
+    const [report, setReport] = useState<UsageReport | null>(null);
+    const [capacity, setCapacity] = useState<Record<string, ModelCapacity>>({});
+    const [budgetInput, setBudgetInput] = useState('');
+
+    const refresh = () => {
+        getUsageReport().then(setReport);
+        getModelCapacity().then(setCapacity);
+    };
+
+    useEffect(() => {
+        getUsageReport().then(setReport);
+        getModelCapacity().then(setCapacity);
+    }, []);
+
+    const applyBudget = () => {
+        const tokens = Math.max(0, Math.floor(Number(budgetInput) || 0));
+        setUsageBudget(tokens).then(refresh);
+    };
+
+    const groups: { title: string; rows: [string, UsageTotals & { status?: BudgetStatus }][] }[] = report ? [
+        { title: 'Agent', rows: Object.entries(report.agents) },
+        { title: 'Layer', rows: Object.entries(report.layers) },
+        { title: 'Model', rows: Object.entries(report.models) }
+    ] : [];
+
+    return (
+        <div style={{ marginTop: '30px' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '15px' }}>
+                <h3 style={{ fontSize: '14px', color: '#888', margin: 0, textTransform: 'uppercase', letterSpacing: '1px' }}>Token Usage {report && `(${report.day})`}</h3>
+                <button onClick={refresh} style={{ background: 'transparent', border: '1px solid rgba(255,255,255,0.1)', color: '#888', borderRadius: '6px', padding: '4px 10px', cursor: 'pointer', fontSize: '12px' }}>Refresh</button>
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginBottom: '15px', fontSize: '13px', color: '#888' }}>
+                <span>Daily budget per agent: {report?.budget.dailyTokens ? `${report.budget.dailyTokens.toLocaleString()} tokens` : 'unlimited'}</span>
+                <input
+                    type="number"
+                    min={0}
+                    placeholder="tokens (0 = off)"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    style={{ width: '120px', background: 'rgba(0,0,0,0.3)', border: '1px solid rgba(255,255,255,0.1)', color: '#fff', borderRadius: '6px', padding: '4px 8px', fontSize: '12px' }}
+                />
+                <button onClick={applyBudget} style={{ background: 'transparent', border: '1px solid rgba(255,255,255,0.1)', color: '#888', borderRadius: '6px', padding: '4px 10px', cursor: 'pointer', fontSize: '12px' }}>Set</button>
+            </div>
+
+            {!report || Object.keys(report.agents).length === 0 ? (
+                <div style={{ fontSize: '13px', color: '#666' }}>No LLM calls today.</div>
+            ) : (
+                <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+                    <thead>
+                        <tr style={{ color: '#666', textAlign: 'left' }}>
+                            <th style={{ padding: '6px 0', fontWeight: 500 }}>Name</th>
+                            <th style={{ fontWeight: 500 }}>Calls</th>
+                            <th style={{ fontWeight: 500 }}>Errors</th>
+                            <th style={{ fontWeight: 500 }}>Prompt</th>
+                            <th style={{ fontWeight: 500 }}>Completion</th>
+                            <th style={{ fontWeight: 500 }}>Avg ms</th>
+                        </tr>
+                    </thead>
+                    {groups.map(group => (
+                        <tbody key={group.title}>
+                            <tr>
+                                <td colSpan={6} style={{ paddingTop: '10px', color: '#666', fontSize: '11px', textTransform: 'uppercase' }}>{group.title}</td>
+                            </tr>
+                            {group.rows.map(([name, totals]) => (
+                                <tr key={name} style={{ borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                                    <td style={{ padding: '6px 0', color: '#00d4ff' }}>
+                                        {name.split('/').pop()}
+                                        {totals.status && totals.status !== 'OK' && (
+                                            <span style={{ marginLeft: '6px', fontSize: '10px', color: BUDGET_COLORS[totals.status] }}>{totals.status}</span>
+                                        )}
+                                    </td>
+                                    <td>{totals.calls}</td>
+                                    <td style={{ color: totals.errors > 0 ? '#ff6b6b' : undefined }}>{totals.errors}</td>
+                                    <td>{totals.promptTokens.toLocaleString()}</td>
+                                    <td>{totals.completionTokens.toLocaleString()}</td>
+                                    <td>{totals.calls > 0 ? Math.round(totals.totalLatencyMs / totals.calls) : 0}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    ))}
+                </table>
+            )}
+
+            <h3 style={{ fontSize: '14px', color: '#888', margin: '20px 0 10px', textTransform: 'uppercase', letterSpacing: '1px' }}>Model Headroom</h3>
+            <table style={{ width: '100%', fontSize: '13px', borderCollapse: 'collapse' }}>
+                <thead>
+                    <tr style={{ color: '#666', textAlign: 'left' }}>
+                        <th style={{ padding: '6px 0', fontWeight: 500 }}>Model</th>
+                        <th style={{ fontWeight: 500 }}>Req/min</th>
+                        <th style={{ fontWeight: 500 }}>Tok/min</th>
+                        <th style={{ fontWeight: 500 }}>Req/day</th>
+                        <th style={{ fontWeight: 500 }}>Tok/day</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {Object.entries(capacity).map(([model, left]) => (
+                        <tr key={model} style={{ borderTop: '1px solid rgba(255,255,255,0.05)' }}>
+                            <td style={{ padding: '6px 0', color: '#00d4ff' }}>{model.split('/').pop()}</td>
+                            <td>{left.requestsPerMinute}</td>
+                            <td>{left.tokensPerMinute.toLocaleString()}</td>
+                            <td>{left.requestsPerDay.toLocaleString()}</td>
+                            <td>{left.tokensPerDay.toLocaleString()}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
+
 function ControlRow({ action, currentKey, isListening, onListen }: { action: string, currentKey: string, isListening: boolean, onListen: () => void }) {
     return (
         <div style={{
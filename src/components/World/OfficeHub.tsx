@@ -4,12 +4,8 @@ import { useGameStore } from '@/store/gameStore';
 import { createMaterials } from '../Systems/Materials';
 import { Text } from '@react-three/drei';
 import BaymaxRobot from '../Entities/BaymaxRobot';
-
-interface Box {
-    id: string;
-    position: THREE.Vector3;
-    claimedBy?: string; // ID of robot
-}
+import { WorldRegistry } from '@/lib/yuka-oracle';
+import AIManager, { type Box, type BoxSystem } from '../Systems/AIManager';
 
 export default function OfficeHub() {
     const addCollidableMesh = useGameStore((state) => state.addCollidableMesh);
@@ -45,86 +41,78 @@ export default function OfficeHub() {
         setLooseBoxes(boxes);
     }, []);
 
-    // System Interface for Robots
-    const system = useMemo(() => ({
-        findAvailableBox: (agentPos: any) => {
-            // Find closest unclaimed box
-            let closest: Box | null = null;
-            let minStartDist = Infinity;
-
-            // Access current state via closure? No, stale state issue.
-            // Ideally use a Ref for mutable system state to avoid re-renders or passing stale logic.
-            // Let's use a Ref-based manager for the "Logic" part, and sync to State for render.
-            return null; // Implemented below
-        },
-        claimBox: (boxId: string, agentId: string) => { },
-        pickUpBox: (boxId: string, agentId: string) => { },
-        getNextConstructionSlot: () => new THREE.Vector3(), // Placeholder
-        placeBox: (pos: THREE.Vector3) => { }
-    }), []);
-
     // Mutable System State (Ref Pattern for High Frequency AI)
     const stateRef = useRef({
         looseBoxes: [] as Box[],
         placedBoxes: [] as THREE.Vector3[],
+        carried: new Map<string, Box>(), // Agent id -> box in its arms
         nextSlotIndex: 0
     });
 
-    // Sync State -> Ref (Initial)
-    useEffect(() => {
-        stateRef.current.looseBoxes = looseBoxes;
-    }, [looseBoxes.length === 0]); // Only allow initial sync to not overwrite logic updates? No..
-    // Actually, let's purely control finding/claiming via Ref methods to avoid loops.
-
-    // Re-bind methods
-    system.findAvailableBox = (agentPos: any) => {
-        const agentVec = new THREE.Vector3(agentPos.x, agentPos.y, agentPos.z);
-        let closest: Box | null = null;
-        let minDist = Infinity;
-
-        stateRef.current.looseBoxes.forEach(box => {
-            if (!box.claimedBy) {
-                const d = agentVec.distanceTo(box.position);
-                if (d < minDist) {
-                    minDist = d;
-                    closest = box;
+    // System Interface for Robots (and agents, via AIManager), built once over the Ref
+    const system: BoxSystem = useMemo(() => ({
+        findAvailableBox: (agentPos: any) => {
+            // Find closest unclaimed box
+            const agentVec = new THREE.Vector3(agentPos.x, agentPos.y, agentPos.z);
+            let closest: Box | null = null;
+            let minDist = Infinity;
+
+            stateRef.current.looseBoxes.forEach(box => {
+                if (!box.claimedBy) {
+                    const d = agentVec.distanceTo(box.position);
+                    if (d < minDist) {
+                        minDist = d;
+                        closest = box;
+                    }
                 }
-            }
-        });
-        return closest;
-    };
-
-    system.claimBox = (boxId: string, agentId: string) => {
-        const box = stateRef.current.looseBoxes.find(b => b.id === boxId);
-        if (box) box.claimedBy = agentId;
-    };
-
-    system.pickUpBox = (boxId: string, agentId: string) => {
-        // Remove from loose
-        stateRef.current.looseBoxes = stateRef.current.looseBoxes.filter(b => b.id !== boxId);
-        // Force Render Update
-        setLooseBoxes([...stateRef.current.looseBoxes]);
-    };
-
-    system.getNextConstructionSlot = () => {
-        // Simple Wall Builder
-        const idx = stateRef.current.nextSlotIndex;
-        stateRef.current.nextSlotIndex++;
+            });
+            return closest;
+        },
+        getBox: (boxId: string) => stateRef.current.looseBoxes.find(b => b.id === boxId),
+        claimBox: (boxId: string, agentId: string) => {
+            const box = stateRef.current.looseBoxes.find(b => b.id === boxId);
+            if (box) box.claimedBy = agentId;
+        },
+        releaseBox: (boxId: string, agentId: string) => {
+            const box = stateRef.current.looseBoxes.find(b => b.id === boxId);
+            if (box && box.claimedBy === agentId) box.claimedBy = undefined;
+        },
+        pickUpBox: (boxId: string, agentId: string) => {
+            const box = stateRef.current.looseBoxes.find(b => b.id === boxId);
+            if (box) stateRef.current.carried.set(agentId, box);
+            // Remove from loose
+            stateRef.current.looseBoxes = stateRef.current.looseBoxes.filter(b => b.id !== boxId);
+            WorldRegistry.getInstance().unregister(boxId);
+            // Force Render Update
+            setLooseBoxes([...stateRef.current.looseBoxes]);
+        },
+        getCarried: (agentId: string) => stateRef.current.carried.get(agentId) ?? null,
+        getNextConstructionSlot: () => {
+            // Simple Wall Builder
+            const idx = stateRef.current.nextSlotIndex;
+            stateRef.current.nextSlotIndex++;
 
-        const row = Math.floor(idx / 10);
-        const col = idx % 10;
+            const row = Math.floor(idx / 10);
+            const col = idx % 10;
 
-        // Build a wall at relative offset
-        const startX = hubCenter.x + 50;
-        const startZ = hubCenter.z - 50;
+            // Build a wall at relative offset
+            const startX = hubCenter.x + 50;
+            const startZ = hubCenter.z - 50;
 
-        return new THREE.Vector3(startX + col * 2.5, hubCenter.y + 1 + row * 2.5, startZ);
-    };
+            return new THREE.Vector3(startX + col * 2.5, hubCenter.y + 1 + row * 2.5, startZ);
+        },
+        placeBox: (pos: THREE.Vector3, agentId: string) => {
+            stateRef.current.carried.delete(agentId);
+            stateRef.current.placedBoxes.push(pos);
+            setPlacedBoxes([...stateRef.current.placedBoxes]);
+        }
+    }), [hubCenter.x, hubCenter.y, hubCenter.z]);
 
-    system.placeBox = (pos: THREE.Vector3) => {
-        stateRef.current.placedBoxes.push(pos);
-        setPlacedBoxes([...stateRef.current.placedBoxes]);
-    };
+    // Sync State -> Ref (Initial)
+    useEffect(() => {
+        stateRef.current.looseBoxes = looseBoxes;
+    }, [looseBoxes.length === 0]); // Only allow initial sync to not overwrite logic updates? No..
+    // Actually, let's purely control finding/claiming via Ref methods to avoid loops.
 
 
     const { materials } = useMemo(() => {
@@ -192,6 +180,30 @@ export default function OfficeHub() {
         };
     }, [addCollidableMesh, removeCollidableMesh, addObstacles, removeObstacles, obstacles]);
 
+    // Register Landmarks
+    useEffect(() => {
+        const registry = WorldRegistry.getInstance();
+        registry.registerStatic('Office', new THREE.Vector3(hubCenter.x, hubCenter.y, hubCenter.z), 'Office', ['Room']);
+        registry.registerStatic('ConstructionSite', new THREE.Vector3(hubCenter.x + 50, hubCenter.y, hubCenter.z - 50), 'Office', ['Work']);
+
+        return () => {
+            registry.unregister('Office');
+            registry.unregister('ConstructionSite');
+        };
+    }, [hubCenter.x, hubCenter.y, hubCenter.z]);
+
+    // Boxes are landmarks too (until picked up), so agents can CARRY them
+    useEffect(() => {
+        const registry = WorldRegistry.getInstance();
+        looseBoxes.forEach(box => registry.registerStatic(box.id, box.position, 'Office', ['Box', 'Carryable']));
+        return () => looseBoxes.forEach(box => registry.unregister(box.id));
+    }, [looseBoxes]);
+
+    useEffect(() => {
+        AIManager.getInstance().registerBoxSystem(system);
+        return () => AIManager.getInstance().registerBoxSystem(null);
+    }, [system]);
+
     return (
         <group>
             {/* Wooden Floor */}
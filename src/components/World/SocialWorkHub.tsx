@@ -2,6 +2,8 @@ import React, { useMemo, useEffect, useRef } from 'react';
 import * as THREE from 'three';
 import { useGameStore } from '@/store/gameStore';
 import { createMaterials } from '../Systems/Materials';
+import { WAYPOINTS } from '../Systems/AIGoals';
+import { WorldRegistry } from '@/lib/yuka-oracle';
 
 import { Text } from '@react-three/drei';
 
@@ -235,6 +237,27 @@ export default function SocialWorkHub() {
         };
     }, [addCollidableMesh, removeCollidableMesh, addObstacles, removeObstacles, addInteractables, removeInteractables, obstacles, interactables]);
 
+    // Register Landmarks (Semantic IDs agents can reason and navigate with)
+    useEffect(() => {
+        const registry = WorldRegistry.getInstance();
+        const ids: string[] = ['SocialHub'];
+
+        registry.registerStatic('SocialHub', new THREE.Vector3(hubCenter.x, hubCenter.y, hubCenter.z), 'SocialHub', ['Room']);
+
+        WAYPOINTS.forEach((point, i) => {
+            const id = `PatrolPoint${String.fromCharCode(65 + i)}`; // PatrolPointA, B, ...
+            registry.registerStatic(id, point, 'SocialHub', ['Patrol']);
+            ids.push(id);
+        });
+
+        interactables.forEach(item => {
+            registry.registerStatic(item.id, item.position, 'SocialHub', ['Furniture', 'Seat']);
+            ids.push(item.id);
+        });
+
+        return () => ids.forEach(id => registry.unregister(id));
+    }, [hubCenter.x, hubCenter.y, hubCenter.z, interactables]);
+
     return (
         <group>
             {/* Floor - Wood Decking instead of Concrete */}
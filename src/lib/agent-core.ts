@@ -5,10 +5,33 @@
  * - Layer 1 (Reptilian): Yuka AI - handled externally
  * - Layer 2 (Limbic): Fast intuition (Llama 3.1 8B)
  * - Layer 3 (Neocortex): Deep reasoning (Llama 4 Maverick)
+ *
+ * Each layer resolves its own provider/model (see llm-provider.ts),
+ * so the whole stack can run against Groq, a local server or the mock.
+ * On Groq, calls walk the layer's fallback chain (see model-router.ts).
  */
 
-import { getGroqClient, GROQ_MODELS, type GroqModelId } from '@/lib/groq';
+import { GROQ_MODELS } from '@/lib/groq';
 import { ContextMixer, TriggerType, createContextMixer } from '@/lib/context-mixer';
+import { getLayerModel, getLayerModelOverride, getLayerProvider, type BrainLayer, type ChatMessage, type ChatResult, type ModelSelection } from '@/lib/llm-provider';
+import { BudgetExceededError, UsageLedger } from '@/lib/usage-ledger';
+import { RateLimitError } from '@/lib/llm-queue';
+import { ModelRateLimiter } from '@/lib/model-rate-limiter';
+import { RULE_BRAIN, routeModels, withTimeout } from '@/lib/model-router';
+import {
+    parseJsonWith,
+    recordContractOutcome,
+    SchemaValidationError,
+    validateLimbicResponse,
+    validateNeocortexTurn,
+    type Validator
+} from '@/lib/llm-schemas';
+import { describeWorldTools, runWorldTool, type WorldToolContext } from '@/lib/world-tools';
+import { WorldRegistry, YukaOracle, type WorldSnapshot } from '@/lib/yuka-oracle';
+import { NavMesh } from '@/lib/nav-mesh';
+import { AgentSessionRegistry, MAX_DIALOGUE_TURNS, type AgentSession, type DialogueTurn } from '@/lib/agent-sessions';
+import { describeCapabilities, getSelectableCapabilities, learnCapabilities, POSTURES, type CapabilityCommand, type CapabilityManifest, type CapabilityOutcome } from '@/lib/capabilities';
+import { describePersona, getPersona, type Persona } from '@/lib/personas';
 
 // =============================================================================
 // TYPES
@@ -23,10 +46,33 @@ export interface NearbyEntity {
 }
 
 export interface AgentContext {
+    agentId: string;
     position: { x: number; y: number; z: number };
     nearbyEntities: NearbyEntity[];
     currentBehavior: string;
     spatialContext?: string;
+    /** Client's WorldRegistry, so server-side tools can answer world queries */
+    world?: WorldSnapshot;
+    /** Perception event that triggered this thought (e.g. an escalated reflex) */
+    stimulus?: string;
+    /** Why the client asked: shapes the context mix and which model is routed */
+    trigger?: TriggerType;
+    /** Models picked in the AI Console for this agent */
+    models?: ModelSelection;
+    /** What other agents said to us since the last thought (A2A) */
+    messages?: HeardMessage[];
+    /** How the agent's recent commands turned out (arrived, path blocked, ...) */
+    outcomes?: CapabilityOutcome[];
+    /** Capabilities the agent may use, with their specs (client modules can register their own) */
+    capabilities?: CapabilityManifest;
+}
+
+/** A line another agent spoke within hearing range */
+export interface HeardMessage {
+    from: string;
+    text: string;
+    /** Said to us directly, or to everyone nearby */
+    direct: boolean;
 }
 
 /** Output from Layer 2 (Limbic) - Quick reactions */
@@ -34,16 +80,38 @@ export interface LimbicResponse {
     reaction: 'WAVE' | 'IGNORE' | 'APPROACH' | 'FLEE' | 'OBSERVE';
     bark?: string;      // Short vocalization ("Hey!", "Hmm...")
     confidence: number; // 0.0 to 1.0
+    /** Model that actually answered (after fallbacks) */
+    model?: string;
 }
 
-/** Output from Layer 3 (Neocortex) - Deep decisions */
-export interface NeocortexResponse {
-    action: 'MOVE_TO' | 'WAIT' | 'WANDER' | 'FOLLOW' | 'SPEAK' | 'WORK';
-    targetId?: string;
-    target?: { x: number; y: number; z: number };
+/** Output from Layer 3 (Neocortex) - Deep decisions, expressed as a capability */
+export interface NeocortexResponse extends CapabilityCommand {
     speech?: string;
     thought: string;
     memoryToStore?: string;
+    /** Model that actually answered (after fallbacks), or RULE_BRAIN */
+    model?: string;
+}
+
+/** The agent's answer to something the player said */
+export interface DialogueReply {
+    reply: string;
+    /** What the agent decided to do about it (follow, go somewhere...), if anything */
+    command: CapabilityCommand | null;
+    thought: string;
+    model?: string;
+}
+
+/** How a call picks its model: by trigger, or pinned to one model first */
+interface RouteOptions {
+    trigger?: TriggerType;
+    model?: string;
+}
+
+/** A validated answer and the model that produced it */
+interface Validated<T> {
+    value: T;
+    model: string;
 }
 
 // =============================================================================
@@ -56,6 +124,7 @@ const LAYER_CONFIG = {
         model: GROQ_MODELS.LLAMA_3_1_8B,
         maxTokens: 128,
         temperature: 0.8,
+        timeoutMs: 4000,
         systemPrompt: `You are an agent's INTUITION. React instantly to stimuli.
 
 Output JSON ONLY:
@@ -74,19 +143,29 @@ Rules:
         model: GROQ_MODELS.LLAMA_4_MAVERICK,
         maxTokens: 256,
         temperature: 0.7,
+        timeoutMs: 10000,
         systemPrompt: `You are an autonomous AI agent in a 3D world. You reason deeply about your situation.
 
 Output JSON ONLY:
 {
-  "action": "MOVE_TO"|"WAIT"|"WANDER"|"FOLLOW"|"SPEAK"|"WORK",
-  "targetId": "optional entity id",
-  "target": {"x": num, "y": num, "z": num} (optional),
+  "type": "<CAPABILITY>",
+  "params": { capability parameters },
+  "posture": ${POSTURES.map(p => `"${p}"`).join('|')} (optional),
   "speech": "what you say aloud" (optional),
   "thought": "your internal reasoning",
   "memoryToStore": "important fact to remember" (optional)
 }
 
-Be natural, curious, and helpful.`
+Only use ids that appear in your context. Be natural, curious, and helpful.`
+    },
+
+    /** Background memory consolidation: cheapest model, short output */
+    DREAMER: {
+        model: GROQ_MODELS.LLAMA_3_1_8B,
+        maxTokens: 64,
+        temperature: 0.3,
+        timeoutMs: 15000,
+        systemPrompt: "Summarize these memories into one concise sentence. Be brief."
     }
 } as const;
 
@@ -94,15 +173,167 @@ Be natural, curious, and helpful.`
 // CORE FUNCTIONS
 // =============================================================================
 
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+/**
+ * System prompt = the agent's persona (if any) + the layer's instructions
+ * (+ for the Neocortex, the capabilities it may choose from)
+ */
+function buildMessages(layer: BrainLayer, userPrompt: string, persona?: Persona, capabilities?: CapabilityManifest | null): ChatMessage[] {
+    let systemPrompt = persona
+        ? `## Persona\n${describePersona(persona)}\n\n${LAYER_CONFIG[layer].systemPrompt}`
+        : LAYER_CONFIG[layer].systemPrompt;
+    if (layer === 'NEOCORTEX') {
+        const catalog = capabilities ?? undefined;
+        systemPrompt += `\n\n## Capabilities\n${describeCapabilities(getSelectableCapabilities(catalog), catalog)}`;
+    }
+
+    return [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt }
+    ];
+}
+
+/** Longest quota wait worth queueing for; beyond it callers fall back instead */
+const MAX_QUOTA_WAIT_MS = 30000;
+
+/**
+ * Run a chat completion for a brain layer through its configured provider,
+ * charged to the agent in the UsageLedger.
+ * Over-budget agents are downgraded to the Limbic provider/model, or refused
+ * with BudgetExceededError.
+ *
+ * On Groq the call walks the routed fallback chain, starting from the model
+ * picked in the AI Console (if any): models without quota
+ * (MODEL_LIMITS) are skipped, and errors, timeouts and empty answers move on
+ * to the next model. If nothing answers, throws RateLimitError when quota
+ * frees up soon, otherwise the last error.
+ */
+async function complete(layer: BrainLayer, messages: ChatMessage[], jsonMode: boolean, agentId: string, route: RouteOptions = {}): Promise<ChatResult> {
+    const ledger = UsageLedger.getInstance();
+    const budget = ledger.getBudgetStatus(agentId);
+    if (budget === 'PAUSED') throw new BudgetExceededError(agentId);
+
+    const config = LAYER_CONFIG[layer];
+    const tier: BrainLayer = budget === 'DOWNGRADE' ? 'LIMBIC' : layer;
+    const provider = getLayerProvider(tier);
+    const prompt = messages.map(m => m.content).join('\n');
+    const estimatedTokens = estimateTokens(prompt) + config.maxTokens;
+
+    // Only Groq has fallback models and MODEL_LIMITS; local and mock providers run their one model
+    const limiter = provider.id === 'groq' ? ModelRateLimiter.getInstance() : null;
+    const sessions = AgentSessionRegistry.getInstance();
+    const picked = sessions.has(agentId) ? sessions.get(agentId).models[tier] : undefined;
+    const models = limiter
+        ? routeModels({ layer: tier, trigger: route.trigger, estimatedTokens, preferred: route.model ?? picked ?? getLayerModelOverride(tier) })
+        : [route.model ?? getLayerModel(tier, LAYER_CONFIG[tier].model)];
+
+    let lastError: unknown = null;
+    let retryAfterMs = Infinity;
+
+    for (const model of models) {
+        if (limiter && !limiter.tryAcquire(model, estimatedTokens)) {
+            retryAfterMs = Math.min(retryAfterMs, limiter.getWaitTimeMs(model, estimatedTokens));
+            continue;
+        }
+
+        const started = Date.now();
+        let result: ChatResult;
+        try {
+            result = await withTimeout(provider.chat({
+                layer,
+                model,
+                messages,
+                temperature: config.temperature,
+                maxTokens: config.maxTokens,
+                jsonMode
+            }), model, config.timeoutMs);
+        } catch (error) {
+            ledger.record({
+                agentId, layer, model,
+                provider: provider.id,
+                promptTokens: 0,
+                completionTokens: 0,
+                latencyMs: Date.now() - started,
+                outcome: 'error'
+            });
+            if (error instanceof RateLimitError) retryAfterMs = Math.min(retryAfterMs, error.retryAfterMs);
+            else lastError = error;
+            if (models.length > 1) console.warn(`[Router] ${layer} ${model} failed (${error instanceof Error ? error.name : 'error'})`);
+            continue;
+        }
+
+        const promptTokens = result.usage?.promptTokens ?? estimateTokens(prompt);
+        const completionTokens = result.usage?.completionTokens ?? estimateTokens(result.content);
+        limiter?.settle(model, estimatedTokens, promptTokens + completionTokens);
+
+        ledger.record({
+            agentId, layer,
+            model: result.model,
+            provider: result.provider,
+            promptTokens,
+            completionTokens,
+            latencyMs: Date.now() - started,
+            outcome: result.content ? 'ok' : 'error'
+        });
+
+        if (!result.content) {
+            lastError = new Error(`Empty ${layer.toLowerCase()} response from ${model}`);
+            continue;
+        }
+        if (model !== models[0]) console.log(`[Router] ${layer} answered by fallback ${model}`);
+        return result;
+    }
+
+    // Quota that frees up soon: let the queue wait. Otherwise report the failure so callers fall back.
+    if (retryAfterMs <= MAX_QUOTA_WAIT_MS) throw new RateLimitError(retryAfterMs);
+    throw lastError ?? new Error(`No ${layer.toLowerCase()} model has quota left`);
+}
+
+/** Rough token count for providers that don't report usage */
+function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+/**
+ * Run a JSON completion and validate it against the layer's contract.
+ * On failure the model sees its own output plus the errors once ("repair");
+ * if that still fails, throws SchemaValidationError so the caller falls back.
+ */
+async function completeValidated<T>(layer: BrainLayer, conversation: ChatMessage[], validator: Validator<T>, agentId: string, route: RouteOptions = {}): Promise<Validated<T>> {
+    // Repair turns stay local: callers only keep the valid answer
+    const messages = [...conversation];
+
+    const first = await complete(layer, messages, true, agentId, route);
+    const check = parseJsonWith(first.content, validator);
+    if (check.ok) {
+        recordContractOutcome(first.model, 'valid');
+        return { value: check.value, model: first.model };
+    }
+
+    messages.push(
+        { role: "assistant", content: first.content },
+        { role: "user", content: `Your JSON broke the output contract:\n${check.errors.map(e => `- ${e}`).join('\n')}\n\nReturn the corrected JSON object only.` }
+    );
+
+    // The model that made the mistake gets to fix it
+    const repair = await complete(layer, messages, true, agentId, { ...route, model: first.model });
+    const recheck = parseJsonWith(repair.content, validator);
+    if (recheck.ok) {
+        recordContractOutcome(repair.model, 'repaired', check.errors);
+        return { value: recheck.value, model: repair.model };
+    }
+
+    recordContractOutcome(repair.model, 'failed', recheck.errors);
+    throw new SchemaValidationError(recheck.errors);
+}
 
 /**
  * Process a Layer 2 (Limbic) quick reaction.
- * Used for fast, instinctive responses.
+ * Used for fast, instinctive responses. Throws RateLimitError.
  */
 export async function processLimbicReaction(
     trigger: string,
-    contextMixer: ContextMixer
+    contextMixer: ContextMixer,
+    persona?: Persona
 ): Promise<LimbicResponse> {
     const context = contextMixer.buildContext('PERCEPTION');
 
@@ -115,121 +346,140 @@ ${context}
 React instantly.`;
 
     try {
-        const client = getGroqClient();
-
-        const response = await client.chat.completions.create({
-            model: LAYER_CONFIG.LIMBIC.model,
-            messages: [
-                { role: "system", content: LAYER_CONFIG.LIMBIC.systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            temperature: LAYER_CONFIG.LIMBIC.temperature,
-            max_tokens: LAYER_CONFIG.LIMBIC.maxTokens,
-            response_format: { type: "json_object" }
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) throw new Error("Empty limbic response");
-
-        return JSON.parse(content) as LimbicResponse;
+        const { value, model } = await completeValidated('LIMBIC', buildMessages('LIMBIC', userPrompt, persona), validateLimbicResponse, contextMixer.getAgentId(), { trigger: 'PERCEPTION' });
+        return { ...value, model };
 
     } catch (error) {
+        // Out of budget: stay calm instead of escalating to the (also paused) Neocortex
+        if (error instanceof BudgetExceededError) return { reaction: 'IGNORE', confidence: 1 };
+        // The caller's queue decides when to try again
+        if (error instanceof RateLimitError) throw error;
         console.error("[Limbic] Error:", error);
         return { reaction: 'OBSERVE', confidence: 0.3 };
     }
 }
 
+/** Max world queries the Neocortex may make before it must decide */
+const MAX_TOOL_TURNS = 3;
+
 /**
  * Process a Layer 3 (Neocortex) deep decision.
  * Used for complex reasoning, conversation, planning.
+ *
+ * When a tool context is given, the model may first query the world
+ * (check_path, nearest_anchor, ...) for up to MAX_TOOL_TURNS turns.
+ * The call walks the Neocortex fallback chain; when no model answers the
+ * rule brain decides. Throws RateLimitError if quota frees up soon.
  */
 export async function processNeocortexThought(
     triggerType: TriggerType,
     contextMixer: ContextMixer,
     additionalContext?: string,
-    spatialOverride?: string
+    spatialOverride?: string,
+    toolContext?: WorldToolContext,
+    persona?: Persona
 ): Promise<NeocortexResponse> {
-    const MAX_RETRIES = 3;
-    let attempt = 0;
-
     const context = contextMixer.buildContext(triggerType, { spatial: spatialOverride });
 
+    const toolSection = toolContext ? `
+## Tools
+Before deciding you may query the world by outputting ONLY {"tool": "<name>", "args": {...}}.
+You will get the result back. Up to ${MAX_TOOL_TURNS} queries, then output your decision.
+${describeWorldTools()}
+` : '';
+
     const userPrompt = `## State
 ${context}
 ${additionalContext ? `\n## Additional Info\n${additionalContext}` : ''}
-
+${toolSection}
 Decide your next action.`;
 
-    while (attempt < MAX_RETRIES) {
-        try {
-            const client = getGroqClient();
-
-            const response = await client.chat.completions.create({
-                model: LAYER_CONFIG.NEOCORTEX.model,
-                messages: [
-                    { role: "system", content: LAYER_CONFIG.NEOCORTEX.systemPrompt },
-                    { role: "user", content: userPrompt }
-                ],
-                temperature: LAYER_CONFIG.NEOCORTEX.temperature,
-                max_tokens: LAYER_CONFIG.NEOCORTEX.maxTokens,
-                response_format: { type: "json_object" }
-            });
-
-            const content = response.choices[0]?.message?.content;
-            if (!content) throw new Error("Empty neocortex response");
-
-            const result = JSON.parse(content) as NeocortexResponse;
-
-            // Auto-store memory if provided
-            if (result.memoryToStore) {
-                contextMixer.getHippocampus().addMemory(
-                    result.memoryToStore,
-                    'observation',
-                    0.7
-                );
-            }
-
-            return result;
-
-        } catch (error: any) {
-            console.error(`[Neocortex] Error (${attempt + 1}/${MAX_RETRIES}):`, error.message || error);
-
-            const isRateLimit =
-                JSON.stringify(error).includes("429") ||
-                JSON.stringify(error).includes("rate_limit");
+    try {
+        const result = await runNeocortexTurns(userPrompt, contextMixer.getAgentId(), triggerType, toolContext, persona);
+
+        // Auto-store memory if provided
+        if (result.memoryToStore) {
+            contextMixer.getHippocampus().addMemory(
+                result.memoryToStore,
+                'observation',
+                0.7
+            );
+        }
 
-            if (isRateLimit) {
-                console.warn("[Neocortex] Rate limit hit. Backing off...");
-                await sleep(2000 * Math.pow(2, attempt));
-            } else if (attempt < MAX_RETRIES - 1) {
-                await sleep(1000);
-            }
+        return result;
 
-            attempt++;
+    } catch (error: any) {
+        if (error instanceof BudgetExceededError) {
+            return { type: 'IDLE', thought: 'Too tired to think (daily budget reached).', model: RULE_BRAIN };
         }
+        // Rate limits pause the request queue instead of backing off here
+        if (error instanceof RateLimitError) throw error;
+
+        console.error("[Neocortex] No model answered:", error.message || error);
+        return ruleBrainDecision(contextMixer);
     }
+}
 
-    // Fallback response
+/**
+ * Last link of the fallback chain: a few fixed rules, no LLM.
+ * Greets a player close by, otherwise stays put.
+ */
+function ruleBrainDecision(contextMixer: ContextMixer): NeocortexResponse {
+    const player = contextMixer.getVisualCortex().getEntities().find(e => e.type === 'PLAYER' && e.distance < 8);
+    if (player) {
+        return {
+            type: 'GESTURE_WAVE',
+            params: { target: player.id },
+            thought: 'Mind is clouded... but I can still say hi.',
+            model: RULE_BRAIN
+        };
+    }
     return {
-        action: 'WAIT',
-        thought: 'Mind is clouded... (API Error)'
+        type: 'HOLD_POSITION',
+        thought: 'Mind is clouded... (API Error)',
+        model: RULE_BRAIN
     };
 }
 
 /**
- * Legacy compatibility: Process thought using old interface.
- * Routes to Neocortex layer with converted context.
+ * The bounded tool loop: each valid tool call is answered with its result,
+ * until the model emits a decision or runs out of tool turns.
+ * Later turns stay on the model that answered the first one.
  */
-export async function processAgentThought(context: AgentContext): Promise<string> {
+async function runNeocortexTurns(userPrompt: string, agentId: string, trigger: TriggerType, toolContext?: WorldToolContext, persona?: Persona): Promise<NeocortexResponse> {
+    const capabilities = AgentSessionRegistry.getInstance().get(agentId).capabilities;
+    const messages = buildMessages('NEOCORTEX', userPrompt, persona, capabilities);
+    const toolBudget = toolContext ? MAX_TOOL_TURNS : 0;
+    let model: string | undefined;
+
+    for (let turn = 0; ; turn++) {
+        const step = await completeValidated('NEOCORTEX', messages, validateNeocortexTurn(turn < toolBudget, capabilities ?? undefined), agentId, { trigger, model });
+        model = step.model;
+        if (step.value.kind === 'decision') return { ...step.value.decision, model };
+
+        const call = step.value.call;
+        const output = runWorldTool(call, toolContext!);
+        console.log(`[Neocortex] Tool ${call.tool}(${JSON.stringify(call.args)}) -> ${output}`);
+
+        const remaining = toolBudget - turn - 1;
+        messages.push(
+            { role: "assistant", content: JSON.stringify(call) },
+            { role: "user", content: `## Tool Result: ${call.tool}\n${output}\n\n${remaining > 0 ? `You may query ${remaining} more time(s), or decide.` : 'Decide your next action now.'}` }
+        );
+    }
+}
+
+/**
+ * Feed the client's perception into the agent's session mixer.
+ */
+async function perceive(mixer: ContextMixer, context: AgentContext): Promise<void> {
     // Dynamic import THREE for server-side usage
     const THREE = await import('three');
 
-    // Create a temporary mixer for legacy calls
-    const mixer = createContextMixer();
-
     // Populate visual cortex with nearby entities
-    const entities = context.nearbyEntities.map(e => ({
-        id: e.id || `entity_${Math.random()}`,
+    // Index-based fallback ids keep prompts reproducible (see llm-cassette.ts)
+    const entities = context.nearbyEntities.map((e, i) => ({
+        id: e.id || `entity_${i}`,
         type: e.type as 'PLAYER' | 'AGENT' | 'OBJECT' | 'LANDMARK',
         name: e.id,
         distance: e.distance,
@@ -241,60 +491,216 @@ export async function processAgentThought(context: AgentContext): Promise<string
         entities,
         new THREE.Vector3(0, 0, -1)
     );
+}
+
+/**
+ * Finished commands: failures are remembered strongly so the agent stops
+ * retrying what doesn't work. Returns the prompt section.
+ */
+function reviewOutcomes(mixer: ContextMixer, outcomes: CapabilityOutcome[]): string {
+    for (const o of outcomes) {
+        mixer.getHippocampus().addMemory(
+            `${o.action}: ${o.status.toLowerCase()}${o.reason ? ` (${o.reason})` : ''}`,
+            'observation',
+            // Failures and things we went to look at closely are worth remembering
+            o.status === 'FAILED' ? 0.8 : o.action.startsWith('INSPECT') ? 0.6 : 0.3
+        );
+    }
+
+    const lines = outcomes.map(o => `- ${o.action}: ${o.status}${o.reason ? ` (${o.reason})` : ''}`);
+    const failed = outcomes.some(o => o.status === 'FAILED');
+    return `
+## Recent Actions
+${lines.join('\n')}${failed ? '\nDon\'t repeat an action that just failed unless something changed; try another way or another goal.' : ''}`;
+}
+
+/**
+ * The client's world for this request. The NavMesh only comes along when the
+ * client rebuilt it (or thinks we may have lost it); otherwise the session's
+ * copy with the same hash is used.
+ */
+function mirrorWorld(session: AgentSession, world?: WorldSnapshot): WorldRegistry {
+    if (world?.nav) session.nav = { hash: world.nav.hash, navMesh: NavMesh.fromSnapshot(world.nav) };
+    const navMesh = session.nav && session.nav.hash === world?.navHash ? session.nav.navMesh : null;
+    return WorldRegistry.fromSnapshot(world ?? { anchors: [], entities: [] }, navMesh);
+}
+
+/**
+ * Legacy compatibility: Process thought using old interface.
+ * Routes to Neocortex layer using the agent's persistent session.
+ */
+export async function processAgentThought(context: AgentContext): Promise<string> {
+    // Reuse the agent's mind across thoughts
+    const session = AgentSessionRegistry.getInstance().get(context.agentId);
+    const mixer = session.mixer;
+    session.thoughtCount++;
+    session.models = context.models ?? {};
+    session.capabilities = context.capabilities ? learnCapabilities(context.capabilities) : null;
+
+    await perceive(mixer, context);
+
+    // Mirror the client's world so tools see the same anchors and positions
+    const registry = mirrorWorld(session, context.world);
+
+    const situation = [
+        `Position: (${context.position.x.toFixed(1)}, ${context.position.y.toFixed(1)}, ${context.position.z.toFixed(1)})`,
+        `Behavior: ${context.currentBehavior}`
+    ];
+    if (context.stimulus) situation.push(`Your instinct could not handle: ${context.stimulus}`);
+    if (context.outcomes?.length) situation.push(reviewOutcomes(mixer, context.outcomes));
+    if (context.messages?.length) situation.push(hearMessages(mixer, context.messages));
 
     const result = await processNeocortexThought(
-        'PERCEPTION',
+        context.trigger ?? 'PERCEPTION',
         mixer,
-        `Position: (${context.position.x.toFixed(1)}, ${context.position.y.toFixed(1)}, ${context.position.z.toFixed(1)})\nBehavior: ${context.currentBehavior}`,
-        context.spatialContext
+        situation.join('\n'),
+        context.spatialContext,
+        { agentId: context.agentId, mixer, registry, oracle: new YukaOracle(registry) },
+        session.persona
     );
 
     return JSON.stringify(result);
 }
 
+/**
+ * Reflex path: a perception event goes to the Limbic layer only.
+ * Shares the agent's session so the reaction lands in the same memory.
+ */
+export async function processAgentReflex(context: AgentContext, stimulus: string): Promise<LimbicResponse> {
+    const session = AgentSessionRegistry.getInstance().get(context.agentId);
+    const mixer = session.mixer;
+    session.models = context.models ?? {};
+    await perceive(mixer, context);
+
+    const reaction = await processLimbicReaction(stimulus, mixer, session.persona);
+    mixer.getHippocampus().addMemory(`${stimulus} -> ${reaction.reaction}`, 'observation', 0.3);
+
+    return reaction;
+}
+
+// =============================================================================
+// DIALOGUE (Player Conversation)
+// =============================================================================
+
+const PLAYER_ID = 'player-01';
+
+const POSITIVE_WORDS = ['thanks', 'thank', 'please', 'great', 'love', 'nice', 'cool', 'awesome', 'good', 'friend', 'hello', 'hi'];
+const NEGATIVE_WORDS = ['hate', 'stupid', 'idiot', 'shut', 'ugly', 'useless', 'annoying', 'bad', 'dumb'];
+
+/** Crude tone of a message, -0.3..0.3, for the relationship update */
+function estimateSentiment(text: string): number {
+    const words = text.toLowerCase().split(/\W+/);
+    const score = words.filter(w => POSITIVE_WORDS.includes(w)).length - words.filter(w => NEGATIVE_WORDS.includes(w)).length;
+    return Math.max(-0.3, Math.min(0.3, score * 0.1));
+}
+
+/**
+ * Player free-text: a SOCIAL thought with the conversation so far.
+ * The reply goes to `speech`; any capability the model picks is returned
+ * for the client to execute. Updates the player relationship and memory.
+ * Throws RateLimitError.
+ */
+export async function processPlayerMessage(context: AgentContext, message: string): Promise<DialogueReply> {
+    const session = AgentSessionRegistry.getInstance().get(context.agentId);
+    const mixer = session.mixer;
+    session.models = context.models ?? {};
+    session.capabilities = context.capabilities ? learnCapabilities(context.capabilities) : null;
+
+    await perceive(mixer, context);
+
+    const registry = mirrorWorld(session, context.world);
+
+    mixer.getSocial().setCurrentInteraction(PLAYER_ID);
+
+    const transcript: DialogueTurn[] = [...session.dialogue, { speaker: 'PLAYER', text: message }];
+    const conversation = `## Conversation
+${transcript.map(t => `${t.speaker === 'PLAYER' ? 'Player' : 'You'}: ${t.text}`).join('\n')}
+
+Answer the player's last line in "speech". If they ask you to do something (follow them, go somewhere, wait), choose that capability; otherwise SOCIAL_INTERACT with target ${PLAYER_ID}.`;
+
+    const result = await processNeocortexThought(
+        'SOCIAL',
+        mixer,
+        conversation,
+        context.spatialContext,
+        { agentId: context.agentId, mixer, registry, oracle: new YukaOracle(registry) },
+        session.persona
+    );
+
+    const reply = result.speech?.trim() || '...';
+
+    mixer.getSocial().updateRelationship(PLAYER_ID, 'Player', estimateSentiment(message));
+    session.dialogue = [...transcript, { speaker: 'AGENT' as const, text: reply }].slice(-MAX_DIALOGUE_TURNS);
+    mixer.getHippocampus().addMemory(`Player said "${message}", I replied "${reply}"`, 'conversation', 0.6);
+
+    const { type, params, posture } = result;
+    return {
+        reply,
+        command: type === 'INTERNAL_THOUGHT' ? null : { type, params, posture },
+        thought: result.thought,
+        model: result.model
+    };
+}
+
+// =============================================================================
+// AGENT-TO-AGENT (Overheard / Addressed Speech)
+// =============================================================================
+
+/** Relationship nudge for being spoken to by another agent */
+const A2A_SENTIMENT = 0.05;
+
+/**
+ * Other agents' lines: remember them, warm up to the speaker and
+ * return the prompt section asking for a reply.
+ */
+function hearMessages(mixer: ContextMixer, messages: HeardMessage[]): string {
+    const social = mixer.getSocial();
+    const lines = messages.map(m => {
+        const name = getPersona(m.from).name;
+        social.updateRelationship(m.from, name, A2A_SENTIMENT);
+        mixer.getHippocampus().addMemory(`${name} said${m.direct ? ' to me' : ''}: "${m.text}"`, 'conversation', 0.5);
+        return `${name} (${m.from})${m.direct ? ' to you' : ''}: ${m.text}`;
+    });
+
+    const last = messages[messages.length - 1];
+    social.setCurrentInteraction(last.from);
+
+    return `
+## Messages
+${lines.join('\n')}
+
+Reply to ${last.from} in "speech" (SOCIAL_INTERACT with target ${last.from}), or choose another capability and stay silent to end the conversation.`;
+}
+
 // =============================================================================
 // DREAMER (Background Memory Consolidation)
 // =============================================================================
 
 /**
  * Summarize recent memories using cheap model.
- * Called periodically or during "sleep" states.
+ * Called by the DreamerScheduler at nightfall or when the buffer fills.
+ * Returns true if the memories were consolidated. Throws RateLimitError.
  */
-export async function consolidateMemories(contextMixer: ContextMixer): Promise<void> {
+export async function consolidateMemories(contextMixer: ContextMixer): Promise<boolean> {
     const memories = contextMixer.getHippocampus().getRawForSummary();
 
-    if (memories.length < 3) return; // Not enough to summarize
+    if (memories.length < 3) return false; // Not enough to summarize
 
     const memoryText = memories.map(m => `- ${m.content}`).join('\n');
 
     try {
-        const client = getGroqClient();
-
-        const response = await client.chat.completions.create({
-            model: GROQ_MODELS.LLAMA_3_1_8B, // Use cheap model
-            messages: [
-                {
-                    role: "system",
-                    content: "Summarize these memories into one concise sentence. Be brief."
-                },
-                {
-                    role: "user",
-                    content: memoryText
-                }
-            ],
-            temperature: 0.3,
-            max_tokens: 64
-        });
-
-        const summary = response.choices[0]?.message?.content?.trim();
+        const summary = (await complete('DREAMER', buildMessages('DREAMER', memoryText), false, contextMixer.getAgentId())).content.trim();
         if (summary) {
             contextMixer.getHippocampus().consolidate(summary);
             console.log("[Dreamer] Consolidated memories:", summary);
+            return true;
         }
 
     } catch (error) {
+        if (error instanceof RateLimitError) throw error;
         console.error("[Dreamer] Failed to consolidate:", error);
     }
+    return false;
 }
 
 // =============================================================================
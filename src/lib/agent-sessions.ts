@@ -0,0 +1,142 @@
+/**
+ * Agent Session Registry (Server Side)
+ * Keeps one ContextMixer alive per agent between thoughts, so the
+ * Hippocampus, Social, Amygdala and Frontal shards actually accumulate.
+ *
+ * Sessions are evicted when idle for too long, or least-recently-used
+ * first when the registry is full.
+ */
+
+import { ContextMixer, createContextMixer } from '@/lib/context-mixer';
+import { applyPersona, getPersona, type Persona } from '@/lib/personas';
+import type { ModelSelection } from '@/lib/llm-provider';
+import type { CapabilityManifest } from '@/lib/capabilities';
+import type { NavMesh } from '@/lib/nav-mesh';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** One line of a player <-> agent conversation */
+export interface DialogueTurn {
+    speaker: 'PLAYER' | 'AGENT';
+    text: string;
+}
+
+export interface AgentSession {
+    agentId: string;
+    persona: Persona;
+    mixer: ContextMixer;
+    createdAt: number;
+    lastAccess: number;
+    thoughtCount: number;
+    /** Models picked in the AI Console, refreshed by every request */
+    models: ModelSelection;
+    /** Capabilities the client can execute, learned from its manifest; null = the built-ins */
+    capabilities: CapabilityManifest | null;
+    /** Recent conversation with the player, oldest first (see MAX_DIALOGUE_TURNS) */
+    dialogue: DialogueTurn[];
+    /** The client's NavMesh, kept so it's only sent when it changes */
+    nav: { hash: string; navMesh: NavMesh } | null;
+}
+
+/** How many lines of conversation an agent keeps in its prompt */
+export const MAX_DIALOGUE_TURNS = 12;
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export class AgentSessionRegistry {
+    private static instance: AgentSessionRegistry;
+
+    private sessions: Map<string, AgentSession> = new Map();
+    private maxSessions: number;
+    private idleTimeoutMs: number;
+
+    private constructor(maxSessions: number, idleTimeoutMs: number) {
+        this.maxSessions = maxSessions;
+        this.idleTimeoutMs = idleTimeoutMs;
+    }
+
+    static getInstance(): AgentSessionRegistry {
+        if (!AgentSessionRegistry.instance) {
+            // 32 agents, 30 minutes idle before the mind is released
+            AgentSessionRegistry.instance = new AgentSessionRegistry(32, 30 * 60 * 1000);
+        }
+        return AgentSessionRegistry.instance;
+    }
+
+    /** Get the agent's session, creating a fresh mind (seeded from its persona) if none exists */
+    get(agentId: string): AgentSession {
+        const now = Date.now();
+        this.evictIdle(now);
+
+        let session = this.sessions.get(agentId);
+        if (!session) {
+            const persona = getPersona(agentId);
+            const mixer = createContextMixer(agentId);
+            applyPersona(mixer, persona);
+
+            session = {
+                agentId,
+                persona,
+                mixer,
+                createdAt: now,
+                lastAccess: now,
+                thoughtCount: 0,
+                models: {},
+                capabilities: null,
+                dialogue: [],
+                nav: null
+            };
+            this.sessions.set(agentId, session);
+            this.evictOverflow();
+            console.log(`[Sessions] Created session for ${agentId} (${this.sessions.size} active)`);
+        }
+
+        session.lastAccess = now;
+        return session;
+    }
+
+    has(agentId: string): boolean {
+        return this.sessions.has(agentId);
+    }
+
+    /** Wipe an agent's mind. Returns false if there was no session. */
+    reset(agentId: string): boolean {
+        const existed = this.sessions.delete(agentId);
+        if (existed) console.log(`[Sessions] Reset session for ${agentId}`);
+        return existed;
+    }
+
+    resetAll(): void {
+        this.sessions.clear();
+        console.log("[Sessions] All sessions reset");
+    }
+
+    getActiveIds(): string[] {
+        return Array.from(this.sessions.keys());
+    }
+
+    private evictIdle(now: number): void {
+        for (const [id, session] of this.sessions) {
+            if (now - session.lastAccess > this.idleTimeoutMs) {
+                this.sessions.delete(id);
+                console.log(`[Sessions] Evicted idle session ${id}`);
+            }
+        }
+    }
+
+    private evictOverflow(): void {
+        while (this.sessions.size > this.maxSessions) {
+            let oldest: AgentSession | null = null;
+            for (const session of this.sessions.values()) {
+                if (!oldest || session.lastAccess < oldest.lastAccess) oldest = session;
+            }
+            if (!oldest) return;
+            this.sessions.delete(oldest.agentId);
+            console.log(`[Sessions] Evicted least recently used session ${oldest.agentId}`);
+        }
+    }
+}
@@ -0,0 +1,346 @@
+/**
+ * Capability Catalog
+ * The single source of truth for what an agent can physically do.
+ *
+ * Shared by the client (CapabilityEngine executes these) and the server
+ * (the Neocortex prompt is generated from this table), so it must stay
+ * free of Yuka / scene dependencies.
+ *
+ * The built-ins below seed a registry; client modules add their own with
+ * registerCapability() (capability-registry.ts). The server learns those
+ * per agent session from the manifest each request carries (see learnCapabilities()).
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type Posture = 'RUN' | 'WALK' | 'SNEAK' | 'ALERT';
+
+export type BuiltinCapabilityType =
+    | 'IDLE'                // Stand still, play random idle anims
+    | 'NAVIGATE_TO_ANCHOR'  // Go to named location from registry
+    | 'NAVIGATE_TO_COORD'   // Go to raw XYZ
+    | 'SOCIAL_INTERACT'     // Approach, Face, Dialog
+    | 'GESTURE_WAVE'        // Play wave animation
+    | 'FOLLOW_ENTITY'       // Follow target with offset
+    | 'HOLD_POSITION'       // Stop and look at target
+    | 'SQUAD_ORDER'         // Broadcast command
+    | 'SIT_ON'              // Reserve a seat, sit a while, stand up
+    | 'LOOK_AT'             // Turn head and torso toward someone
+    | 'INSPECT'             // Walk up to a landmark and take note of it
+    | 'CARRY'               // Pick up a box
+    | 'PLACE'               // Put the carried box down
+    | 'FORMATION'           // Form the squad up around a leader
+    | 'KEEP_FORMATION'      // Hold a formation slot (issued by FORMATION)
+    | 'INTERNAL_THOUGHT';   // No action, just thinking
+
+/** A built-in, or any name added with registerCapabilitySpec() */
+export type CapabilityType = BuiltinCapabilityType | (string & {});
+
+export interface CapabilityCommand {
+    type: CapabilityType;
+    params?: Record<string, any>; // e.g., { target: "Player", duration: 5 }
+    posture?: Posture;
+}
+
+/** Lifecycle of one executed command (see CapabilityEngine) */
+export type CapabilityStatus = 'STARTED' | 'PROGRESS' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED';
+
+/** How a finished command turned out, as reported back to the brain */
+export interface CapabilityOutcome {
+    commandId: number;
+    /** e.g. "NAVIGATE_TO_ANCHOR Office" */
+    action: string;
+    status: Extract<CapabilityStatus, 'SUCCEEDED' | 'FAILED' | 'CANCELLED'>;
+    /** e.g. "arrived", "target lost", "path blocked", "timeout" */
+    reason: string;
+}
+
+export interface CapabilityParamSpec {
+    type: 'string' | 'number';
+    description: string;
+    required?: boolean;
+}
+
+export interface CapabilitySpec {
+    description: string;
+    params: Record<string, CapabilityParamSpec>;
+    /** Whether the Neocortex may choose this capability on its own */
+    llmSelectable: boolean;
+}
+
+/** Specs by name, as sent from client to server */
+export type CapabilityManifest = Record<string, CapabilitySpec>;
+
+// =============================================================================
+// CATALOG
+// =============================================================================
+
+export const POSTURES: Posture[] = ['WALK', 'RUN', 'SNEAK', 'ALERT'];
+
+export const CAPABILITY_SPECS: Record<BuiltinCapabilityType, CapabilitySpec> = {
+    IDLE: {
+        description: "Stand still and relax.",
+        params: {},
+        llmSelectable: true
+    },
+    NAVIGATE_TO_ANCHOR: {
+        description: "Walk to a named landmark from your LOCATION info.",
+        params: {
+            target: { type: 'string', description: "Landmark id", required: true }
+        },
+        llmSelectable: true
+    },
+    NAVIGATE_TO_COORD: {
+        description: "Walk to raw world coordinates.",
+        params: {
+            x: { type: 'number', description: "World X", required: true },
+            y: { type: 'number', description: "World Y" },
+            z: { type: 'number', description: "World Z", required: true }
+        },
+        llmSelectable: true
+    },
+    SOCIAL_INTERACT: {
+        description: "Approach someone and face them to talk.",
+        params: {
+            target: { type: 'string', description: "Entity id (e.g. player-01)", required: true }
+        },
+        llmSelectable: true
+    },
+    GESTURE_WAVE: {
+        description: "Wave at someone.",
+        params: {
+            target: { type: 'string', description: "Entity id to wave at" }
+        },
+        llmSelectable: true
+    },
+    FOLLOW_ENTITY: {
+        description: "Follow someone, keeping a polite distance.",
+        params: {
+            target: { type: 'string', description: "Entity id to follow", required: true }
+        },
+        llmSelectable: true
+    },
+    HOLD_POSITION: {
+        description: "Stop and stay where you are.",
+        params: {},
+        llmSelectable: true
+    },
+    SQUAD_ORDER: {
+        description: "Order your squad to do something; each member reports back.",
+        params: {
+            group: { type: 'string', description: "Squad name from your persona, or \"all\"", required: true },
+            order: { type: 'string', description: "Capability each member performs (e.g. NAVIGATE_TO_ANCHOR)", required: true },
+            target: { type: 'string', description: "That capability's target" },
+            x: { type: 'number', description: "World X, for NAVIGATE_TO_COORD" },
+            z: { type: 'number', description: "World Z, for NAVIGATE_TO_COORD" }
+        },
+        llmSelectable: true
+    },
+    SIT_ON: {
+        description: "Sit down on a free seat for a while, then stand up.",
+        params: {
+            target: { type: 'string', description: "Seat id (e.g. the Nearest Seat)", required: true },
+            duration: { type: 'number', description: "Seconds to stay seated (default 20)" }
+        },
+        llmSelectable: true
+    },
+    LOOK_AT: {
+        description: "Look at someone without walking over.",
+        params: {
+            target: { type: 'string', description: "Entity id to look at", required: true }
+        },
+        llmSelectable: true
+    },
+    INSPECT: {
+        description: "Walk up to a landmark and take a close look; what you see goes into memory.",
+        params: {
+            target: { type: 'string', description: "Landmark id", required: true }
+        },
+        llmSelectable: true
+    },
+    CARRY: {
+        description: "Walk to a box and pick it up (one at a time).",
+        params: {
+            target: { type: 'string', description: "Box id (e.g. the Nearest Box)", required: true }
+        },
+        llmSelectable: true
+    },
+    PLACE: {
+        description: "Put down the box you carry: at a landmark, at coordinates, or (neither) on the construction site wall.",
+        params: {
+            target: { type: 'string', description: "Landmark id" },
+            x: { type: 'number', description: "World X" },
+            z: { type: 'number', description: "World Z" }
+        },
+        llmSelectable: true
+    },
+    FORMATION: {
+        description: "Form your squad up on a leader (you, unless given) and move together; BREAK dismisses it.",
+        params: {
+            shape: { type: 'string', description: "LINE, COLUMN, WEDGE, CIRCLE (around target) or BREAK", required: true },
+            group: { type: 'string', description: "Squad name from your persona, or \"all\"", required: true },
+            leader: { type: 'string', description: "Entity id to form up on (e.g. player-01)" },
+            target: { type: 'string', description: "Entity or landmark id to circle, for CIRCLE" }
+        },
+        llmSelectable: true
+    },
+    KEEP_FORMATION: {
+        description: "Hold your slot in a formation, at the leader's pace.",
+        params: {
+            formation: { type: 'number', description: "Formation id", required: true }
+        },
+        llmSelectable: false
+    },
+    INTERNAL_THOUGHT: {
+        description: "Do nothing physically, just think.",
+        params: {},
+        llmSelectable: true
+    }
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const specs: Map<string, CapabilitySpec> = new Map(Object.entries(CAPABILITY_SPECS));
+
+/** Add (or replace) a capability's spec */
+export function registerCapabilitySpec(name: string, spec: CapabilitySpec): void {
+    specs.set(name, spec);
+}
+
+/**
+ * A session's catalog if given, else the registry. Own keys only: `name` may come
+ * from model output, and "constructor" mustn't resolve to Object.prototype's.
+ */
+export function getCapabilitySpec(name: string, catalog?: CapabilityManifest): CapabilitySpec | undefined {
+    if (catalog) return Object.hasOwn(catalog, name) ? catalog[name] : undefined;
+    return specs.get(name);
+}
+
+/** Every registered capability name, built-ins first */
+export function listCapabilities(): CapabilityType[] {
+    return Array.from(specs.keys());
+}
+
+/** The specs of the given capabilities, for sending to the server */
+export function exportCapabilityManifest(names: string[]): CapabilityManifest {
+    const manifest: CapabilityManifest = {};
+    for (const name of names) {
+        const spec = specs.get(name);
+        if (spec) manifest[name] = spec;
+    }
+    return manifest;
+}
+
+const MAX_LEARNED_DESCRIPTION = 200;
+const CAPABILITY_NAME = /^[A-Z][A-Z0-9_]{0,39}$/;
+const PARAM_NAME = /^[a-zA-Z]\w{0,31}$/;
+
+/** A client-declared spec, checked and trimmed to one short line per text; null if malformed */
+function sanitizeSpec(input: unknown): CapabilitySpec | null {
+    if (typeof input !== 'object' || input === null) return null;
+    const { description, params, llmSelectable } = input as Partial<CapabilitySpec>;
+    if (typeof description !== 'string' || typeof params !== 'object' || params === null) return null;
+
+    const clean = (text: string) => text.replace(/\s+/g, ' ').trim().slice(0, MAX_LEARNED_DESCRIPTION);
+    const cleanParams: Record<string, CapabilityParamSpec> = {};
+    for (const [name, p] of Object.entries(params)) {
+        if (!PARAM_NAME.test(name) || (p?.type !== 'string' && p?.type !== 'number') || typeof p.description !== 'string') return null;
+        cleanParams[name] = { type: p.type, description: clean(p.description), required: p.required === true };
+    }
+    return { description: clean(description), params: cleanParams, llmSelectable: llmSelectable === true };
+}
+
+/**
+ * Server side: one agent session's catalog from the manifest its client sent.
+ * Built-ins keep the server's own spec; other names are taken once their spec
+ * checks out. Nothing goes into the shared registry, so one client's plugins
+ * never show up in another's prompt, and a changed spec applies on the next request.
+ */
+export function learnCapabilities(manifest: CapabilityManifest): CapabilityManifest {
+    const catalog: CapabilityManifest = {};
+    for (const [name, spec] of Object.entries(manifest)) {
+        const known = specs.get(name);
+        if (known) {
+            catalog[name] = known;
+            continue;
+        }
+        const learned = CAPABILITY_NAME.test(name) ? sanitizeSpec(spec) : null;
+        if (learned) catalog[name] = learned;
+        else console.warn(`[Capabilities] Ignoring malformed capability "${name}" from client`);
+    }
+    return catalog;
+}
+
+/** Schema check of a command's params against its spec (empty = valid) */
+export function checkCapabilityParams(type: CapabilityType, params: Record<string, unknown>, catalog?: CapabilityManifest): string[] {
+    const spec = getCapabilitySpec(type, catalog);
+    if (!spec) return [`Unknown capability ${type}`];
+
+    const errors: string[] = [];
+    for (const [name, p] of Object.entries(spec.params)) {
+        const value = params[name];
+        if (value === undefined || value === null) {
+            if (p.required) errors.push(`${type} requires param "${name}" (${p.type})`);
+        } else if (typeof value !== p.type) {
+            errors.push(`${type} param "${name}" must be a ${p.type}`);
+        }
+    }
+    return errors;
+}
+
+// =============================================================================
+// PROMPT GENERATION
+// =============================================================================
+
+/**
+ * Capabilities the Neocortex is allowed to pick: from a session's catalog
+ * (the client's allowed list, see learnCapabilities()) or the whole registry.
+ */
+export function getSelectableCapabilities(catalog?: CapabilityManifest): CapabilityType[] {
+    const types = catalog ? Object.keys(catalog) : listCapabilities();
+    return types.filter(type => getCapabilitySpec(type, catalog)!.llmSelectable);
+}
+
+/**
+ * Render the capability table as prompt documentation.
+ * e.g. `- FOLLOW_ENTITY {target: string (required)}: Follow someone...`
+ */
+export function describeCapabilities(types: CapabilityType[] = getSelectableCapabilities(), catalog?: CapabilityManifest): string {
+    return types.flatMap(type => {
+        const spec = getCapabilitySpec(type, catalog);
+        if (!spec) return [];
+        const params = Object.entries(spec.params).map(([name, p]) =>
+            `${name}: ${p.type}${p.required ? ' (required)' : ''} - ${p.description}`
+        );
+        const paramText = params.length > 0 ? ` {${params.join('; ')}}` : '';
+        return `- ${type}${paramText}: ${spec.description}`;
+    }).join('\n');
+}
+
+/**
+ * The command a SQUAD_ORDER hands to each member: `order` with the params it understands.
+ * null if `order` isn't a capability (or is another SQUAD_ORDER).
+ */
+export function getSquadCommand(cmd: CapabilityCommand): CapabilityCommand | null {
+    const type = cmd.params?.order as CapabilityType;
+    const spec = typeof type === 'string' ? specs.get(type) : undefined;
+    if (!spec || type === 'SQUAD_ORDER') return null;
+
+    const params: Record<string, unknown> = {};
+    for (const name of Object.keys(spec.params)) {
+        if (cmd.params?.[name] !== undefined) params[name] = cmd.params[name];
+    }
+    return { type, params, posture: cmd.posture };
+}
+
+/** One-line label for a command, e.g. "NAVIGATE_TO_ANCHOR Office" or "NAVIGATE_TO_COORD (12.0, -40.5)" */
+export function describeCommand(cmd: CapabilityCommand): string {
+    const p = cmd.params ?? {};
+    if (typeof p.target === 'string') return `${cmd.type} ${p.target}`;
+    if (typeof p.x === 'number' && typeof p.z === 'number') return `${cmd.type} (${p.x.toFixed(1)}, ${p.z.toFixed(1)})`;
+    return cmd.type;
+}
@@ -2,30 +2,111 @@ import * as YUKA from 'yuka';
 import * as THREE from 'three';
 import { WorldRegistry } from './yuka-oracle';
 import AIManager from '../components/Systems/AIManager';
+import { checkCapabilityParams, type Posture, type CapabilityCommand, type CapabilityStatus } from './capabilities';
+import { getCapability, type AgentPose, type CapabilityContext, type ExecuteResult, type RunningResult } from './capability-registry';
 
 // -----------------------------------------------------------------------------
 // TYPES
 // -----------------------------------------------------------------------------
 
-export type Posture = 'RUN' | 'WALK' | 'SNEAK' | 'ALERT';
-
-export type CapabilityType =
-    | 'IDLE'                // Stand still, play random idle anims
-    | 'NAVIGATE_TO_ANCHOR'  // Go to named location from registry
-    | 'NAVIGATE_TO_COORD'   // Go to raw XYZ
-    | 'SOCIAL_INTERACT'     // Approach, Face, Dialog
-    | 'GESTURE_WAVE'        // Play wave animation
-    | 'FOLLOW_ENTITY'       // Follow target with offset
-    | 'HOLD_POSITION'       // Stop and look at target
-    | 'SQUAD_ORDER'         // Broadcast command
-    | 'INTERNAL_THOUGHT';   // No action, just thinking
-
-export interface CapabilityCommand {
-    type: CapabilityType;
-    params?: Record<string, any>; // e.g., { target: "Player", duration: 5 }
-    posture?: Posture;
+// Capability definitions live in the shared catalog so the server can build prompts from them.
+export type { Posture, CapabilityType, CapabilityCommand, CapabilityStatus } from './capabilities';
+
+/** Who gave an order; decides who may interrupt whom */
+export type CommandSource = 'PLAYER' | 'SQUAD_LEADER' | 'SCRIPT' | 'LLM';
+
+/**
+ * How a new command meets the current one:
+ * - INTERRUPT: replace it now (if its priority allows)
+ * - QUEUE: wait, ahead of any queued lower-priority commands
+ * - APPEND: wait at the end of the queue
+ */
+export type QueueMode = 'INTERRUPT' | 'QUEUE' | 'APPEND';
+
+export interface CommandOrder {
+    source?: CommandSource;     // Default: LLM
+    priority?: number;          // Default: SOURCE_PRIORITY[source]
+    mode?: QueueMode;           // Default: INTERRUPT
+}
+
+export interface QueuedCommand {
+    id: number;
+    command: CapabilityCommand;
+    source: CommandSource;
+    priority: number;
+}
+
+/** What the agent is doing and what's lined up (for the HUD) */
+export interface QueueSnapshot {
+    active: QueuedCommand | null;
+    /** Active command still in progress (not yet succeeded/failed) */
+    running: boolean;
+    /** A player order that stays until released */
+    holding: boolean;
+    pending: QueuedCommand[];
 }
 
+/** Something happened to an executed command */
+export interface CapabilityEvent {
+    commandId: number;
+    command: CapabilityCommand;
+    source: CommandSource;
+    status: CapabilityStatus;
+    /** Why it finished, e.g. "arrived", "path blocked", "interrupted by IDLE" */
+    reason?: string;
+    /** 0..1 share of the distance covered (PROGRESS events) */
+    progress?: number;
+}
+
+export type CapabilityListener = (event: CapabilityEvent) => void;
+
+/** The command currently being watched for completion */
+interface TrackedCommand {
+    id: number;
+    command: CapabilityCommand;
+    source: CommandSource;
+    age: number;               // s since started
+    timeout: number;           // s; Infinity for open-ended commands (follow)
+    /** How the executor said to watch it */
+    running: RunningResult | null;
+    startDistance: number;     // m to the goal when started
+    windowDistance: number;    // m to the goal at the start of the stuck window
+    windowAge: number;         // s into the stuck window
+    sinceProgress: number;     // s since the last PROGRESS event
+    missingFor: number;        // s the target has been unknown
+    noPathFor: number;         // s the NavMesh has known no way to the goal
+}
+
+// -----------------------------------------------------------------------------
+// CONSTANTS (Lifecycle)
+// -----------------------------------------------------------------------------
+
+const ARRIVAL_TOLERANCE = 1.5;   // m from a navigation goal counts as arrived
+const PROGRESS_INTERVAL = 2.0;   // s between PROGRESS events
+const STUCK_WINDOW = 4.0;        // s to get STUCK_MIN_GAIN closer, or the path counts as blocked
+const STUCK_MIN_GAIN = 0.5;      // m
+const TARGET_LOST_GRACE = 2.0;   // s a target may be missing before the command fails
+const NO_PATH_GRACE = 2.0;       // s a goal may be unreachable (e.g. followed across the river) before the command fails
+const MIN_TIMEOUT = 15.0;        // s; otherwise 3x the expected travel time
+const REPATH_DISTANCE = 3.0;     // m a moving goal may drift from the planned path's end before replanning
+const REPATH_INTERVAL = 1.0;     // s between replans
+const WAYPOINT_REACHED = 2.0;    // m from a path corner before heading for the next
+
+// -----------------------------------------------------------------------------
+// CONSTANTS (Command Queue)
+// -----------------------------------------------------------------------------
+
+export const SOURCE_PRIORITY: Record<CommandSource, number> = {
+    PLAYER: 3,
+    SQUAD_LEADER: 2,
+    SCRIPT: 1,
+    LLM: 0
+};
+
+/** Stances a player order keeps after they "complete", until released */
+const HELD_TYPES: CapabilityCommand['type'][] = ['HOLD_POSITION', 'FOLLOW_ENTITY', 'IDLE'];
+const MAX_PENDING = 8;
+
 // -----------------------------------------------------------------------------
 // CONSTANTS (Social Physics)
 // -----------------------------------------------------------------------------
@@ -44,6 +125,7 @@ export class CapabilityEngine {
     private vehicle: YUKA.Vehicle;
     private currentPosture: Posture = 'WALK';
     private registry: WorldRegistry;
+    private agentId: string;
 
     // Behaviors
     private seekBehavior: YUKA.SeekBehavior;
@@ -51,12 +133,28 @@ export class CapabilityEngine {
     private wanderBehavior: YUKA.WanderBehavior;
     private separationBehavior: YUKA.SeparationBehavior;
     private obstacleBehavior: YUKA.ObstacleAvoidanceBehavior;
+    private followPathBehavior: YUKA.FollowPathBehavior;
+    private plannedGoal: THREE.Vector3 | null = null; // Where the current route (path or straight) leads
+    private route: YUKA.Vector3[] = [];                // The path's corners, as handed to followPathBehavior
+    private sinceRepath: number = 0;
+    private pathFailed: boolean = false;               // The last plan found no way there
 
     // State
     public currentAction: string = "IDLE";
     public currentCommand: CapabilityCommand | null = null;
     private activeTargetId: string | null = null;
 
+    // Lifecycle
+    private nextCommandId: number = 1;
+    private tracked: TrackedCommand | null = null;
+    private listeners: Set<CapabilityListener> = new Set();
+    private context: CapabilityContext;
+
+    // Command Queue
+    private active: QueuedCommand | null = null;
+    private pending: QueuedCommand[] = [];
+    private holding: boolean = false;
+
     // Hysteresis State (The "Calm" Factor)
     private isResting: boolean = false;
     private readonly STOP_THRESHOLD = 2.0;    // Distance to stop
@@ -71,8 +169,9 @@ export class CapabilityEngine {
         'ALERT': 4.5
     };
 
-    constructor(vehicle: YUKA.Vehicle) {
+    constructor(vehicle: YUKA.Vehicle, agentId: string = 'agent-01') {
         this.vehicle = vehicle;
+        this.agentId = agentId;
         this.registry = WorldRegistry.getInstance();
 
         // 1. Initialize Behaviors
@@ -90,6 +189,10 @@ export class CapabilityEngine {
         this.wanderBehavior = new YUKA.WanderBehavior();
         this.wanderBehavior.active = false;
 
+        // NavMesh routes (around water and obstacles); ends with an arrive at the last point
+        this.followPathBehavior = new YUKA.FollowPathBehavior(new YUKA.Path(), WAYPOINT_REACHED);
+        this.followPathBehavior.active = false;
+
         // Dynamic Separation
         this.separationBehavior = new YUKA.SeparationBehavior(AIManager.getInstance().vehicles);
         this.separationBehavior.weight = 3.0;
@@ -103,102 +206,135 @@ export class CapabilityEngine {
         this.vehicle.steering.add(this.seekBehavior);
         this.vehicle.steering.add(this.arriveBehavior);
         this.vehicle.steering.add(this.wanderBehavior);
+        this.vehicle.steering.add(this.followPathBehavior);
         this.vehicle.steering.add(this.separationBehavior);
         this.vehicle.steering.add(this.obstacleBehavior);
 
         // Set initial max speed
         this.vehicle.maxSpeed = this.POSTURE_SPEEDS['WALK'];
+
+        // What registered capabilities get to drive
+        this.context = {
+            agentId: this.agentId,
+            vehicle: this.vehicle,
+            registry: this.registry,
+            stopDistance: this.STOP_THRESHOLD,
+            arriveAt: (position) => this.travelTo(position),
+            stop: () => this.vehicle.velocity.set(0, 0, 0),
+            setTarget: (id) => { this.activeTargetId = id; }
+        };
     }
 
     /**
      * Update Loop - Called every frame by useYukaAI
-     * Handles target tracking and Hysteresis logic
+     * Steering toward moving targets (follow, talk, formation slots) happens in monitor()
      */
-    public update(delta: number, playerPos?: THREE.Vector3) {
-        // If we are following/interacting, update the target position
-        if (this.currentCommand && this.currentCommand.type === 'FOLLOW_ENTITY' && playerPos) {
-            // 1. Auto-Run Logic (Match Player Speed)
-            // We need to know player speed. Since we only have position, we can infer or pass it.
-            // For now, let's assume if player is > 10m away, we should RUN.
-            // OR checks WorldRegistry if available.
-            // Better heuristic: Distance based.
-            const dist = this.vehicle.position.distanceTo(playerPos);
-
-            if (dist > 15.0) {
-                this.currentPosture = 'RUN';
-            } else if (dist < 10.0) {
-                this.currentPosture = 'WALK';
-            }
+    public update(delta: number) {
+        this.monitor(delta);
+        this.advanceQueue();
+    }
 
-            // Update Max Speed
-            this.vehicle.maxSpeed = this.POSTURE_SPEEDS[this.currentPosture];
+    /** Subscribe to command lifecycle events; returns the unsubscribe function */
+    public onEvent(listener: CapabilityListener): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
 
-            // 2. Stop/Go Hysteresis
-            const targetVec = playerPos.clone();
-            // Don't stand INSIDE the player. Stop a bit short.
-            // We actually rely on ArriveBehavior's tolerance, but let's effectively
-            // managing "Active" state to stop the internal engine calculation when close.
-
-            if (this.isResting) {
-                if (dist > this.RESUME_THRESHOLD) {
-                    this.isResting = false; // WAKE UP
-                    this.arriveBehavior.target.copy(targetVec);
-                    this.arriveBehavior.active = true;
-                } else {
-                    // Stay resting, keep braking
-                    this.arriveBehavior.active = false;
-                    this.vehicle.velocity.set(0, 0, 0);
-                }
-            } else {
-                // We are moving. Check if we should stop.
-                this.arriveBehavior.target.copy(targetVec);
-
-                if (dist < this.STOP_THRESHOLD) {
-                    this.isResting = true; // STOP
-                    this.arriveBehavior.active = false;
-                    this.vehicle.velocity.set(0, 0, 0);
-                }
-            }
-        } else if (this.activeTargetId && (this.currentAction === 'SOCIAL_INTERACT')) {
-            const currentPos = this.registry.getPosition(this.activeTargetId);
-
-            if (currentPos) {
-                const targetVec = currentPos as unknown as YUKA.Vector3;
-                const dist = this.vehicle.position.distanceTo(targetVec);
-
-                // --- AAA HYSTERESIS LOOP ---
-
-                if (this.isResting) {
-                    // We are resting. Do NOT move until target is far enough.
-                    if (dist > this.RESUME_THRESHOLD) {
-                        this.isResting = false; // WAKE UP
-                        this.arriveBehavior.target.copy(targetVec);
-                        this.arriveBehavior.active = true;
-                        this.vehicle.maxSpeed = this.POSTURE_SPEEDS[this.currentPosture];
-                    } else {
-                        // Stay resting, keep braking
-                        this.arriveBehavior.active = false;
-                        this.vehicle.velocity.set(0, 0, 0);
-                    }
-                } else {
-                    // We are moving. Check if we should stop.
-                    this.arriveBehavior.target.copy(targetVec);
-
-                    if (dist < this.STOP_THRESHOLD) {
-                        this.isResting = true; // STOP
-                        this.arriveBehavior.active = false;
-                        this.vehicle.velocity.set(0, 0, 0);
-                    }
-                }
-            }
-        }
+    /** Id of the command still in progress, or null */
+    public get activeCommandId(): number | null {
+        return this.tracked?.id ?? null;
     }
 
     /**
-     * The Main Interface. LLM sends a command, Engine executes.
+     * The Main Interface. LLM, player UI, scripts and squad leaders send commands here.
+     * Returns the command id used in its lifecycle events, or null when refused:
+     * a command may only interrupt one of the same or lower priority while that
+     * one is running or held. Queued commands start once the current one is done,
+     * or right away if they outrank it.
      */
-    public execute(cmd: CapabilityCommand): void {
-        console.log(`[CapabilityEngine] Executing: ${cmd.type}`);
+    public execute(cmd: CapabilityCommand, order: CommandOrder = {}): number | null {
+        const source = order.source ?? 'LLM';
+        const entry: QueuedCommand = {
+            id: this.nextCommandId++,
+            command: cmd,
+            source,
+            priority: order.priority ?? SOURCE_PRIORITY[source]
+        };
+        const mode = order.mode ?? 'INTERRUPT';
+
+        if (mode === 'INTERRUPT') {
+            if (this.isBusy() && this.active!.priority > entry.priority) {
+                console.log(`[CapabilityEngine] ${source} ${cmd.type} refused: ${this.active!.source} order ${this.active!.command.type} in effect`);
+                return null;
+            }
+            this.start(entry);
+            return entry.id;
+        }
+
+        if (this.pending.length >= MAX_PENDING) {
+            console.warn(`[CapabilityEngine] Queue full, dropping ${source} ${cmd.type}`);
+            return null;
+        }
+        const index = mode === 'QUEUE' ? this.pending.findIndex(p => p.priority < entry.priority) : -1;
+        if (index === -1) this.pending.push(entry);
+        else this.pending.splice(index, 0, entry);
+        return entry.id;
+    }
+
+    /** Let go of a held player order; the queue (or the brain) takes over */
+    public release(): void {
+        if (this.holding) console.log(`[CapabilityEngine] Released ${this.active?.command.type}`);
+        this.holding = false;
+    }
+
+    /** Drop queued commands, optionally only those from one source */
+    public clearQueue(source?: CommandSource): void {
+        this.pending = source ? this.pending.filter(p => p.source !== source) : [];
+    }
+
+    /** Drop every order and stand still (e.g. AI switched off) */
+    public stop(): void {
+        this.clearQueue();
+        this.holding = false;
+        this.start({ id: this.nextCommandId++, command: { type: 'IDLE', posture: 'WALK' }, source: 'SCRIPT', priority: SOURCE_PRIORITY.SCRIPT });
+    }
+
+    public getQueue(): QueueSnapshot {
+        return {
+            active: this.active,
+            running: this.tracked !== null,
+            holding: this.holding,
+            pending: [...this.pending]
+        };
+    }
+
+    /** The active command still has a claim: in progress, or a held player order */
+    private isBusy(): boolean {
+        return this.active !== null && (this.tracked?.id === this.active.id || this.holding);
+    }
+
+    /** Start the next queued command once the current one is done, or if it outranks it */
+    private advanceQueue() {
+        const next = this.pending[0];
+        if (!next) return;
+        if (this.isBusy() && this.active!.priority >= next.priority) return;
+        this.pending.shift();
+        this.start(next);
+    }
+
+    private start(entry: QueuedCommand) {
+        const cmd = entry.command;
+        const id = entry.id;
+        console.log(`[CapabilityEngine] Executing: ${cmd.type} (${entry.source})`);
+
+        if (this.tracked) {
+            const reason = this.tracked.source !== entry.source ? `preempted by ${entry.source} order ${cmd.type}`
+                : this.tracked.command.type === cmd.type ? 'restarted'
+                : `interrupted by ${cmd.type}`;
+            this.finish('CANCELLED', reason);
+        }
+        this.active = entry;
+        this.holding = entry.source === 'PLAYER' && HELD_TYPES.includes(cmd.type);
 
         this.currentAction = cmd.type;
         this.currentCommand = cmd; // Store command for update loop
@@ -216,83 +352,291 @@ export class CapabilityEngine {
         // Reset Speed on new command
         this.vehicle.maxSpeed = this.POSTURE_SPEEDS[this.currentPosture];
 
-        // 3. Execute Capability Logic
-        switch (cmd.type) {
-            case 'IDLE':
-                this.executeIdle();
-                break;
-            case 'NAVIGATE_TO_ANCHOR':
-                this.executeNavigateToAnchor(cmd.params?.target);
-                break;
-            case 'NAVIGATE_TO_COORD':
-                this.executeNavigateToCoord(cmd.params?.x, cmd.params?.y, cmd.params?.z);
-                break;
-            case 'FOLLOW_ENTITY':
-                this.activeTargetId = cmd.params?.target;
-                this.executeFollow(cmd.params?.target);
-                break;
-            case 'SOCIAL_INTERACT':
-                this.activeTargetId = cmd.params?.target;
-                this.executeSocialInteract(cmd.params?.target);
-                break;
-            case 'HOLD_POSITION':
-                this.vehicle.velocity.set(0, 0, 0);
-                break;
-            case 'INTERNAL_THOUGHT':
-                break;
-            default:
-                console.warn(`[CapabilityEngine] Unknown capability: ${cmd.type}`);
+        this.tracked = {
+            id, command: cmd, source: entry.source, age: 0, timeout: Infinity, running: null,
+            startDistance: 0, windowDistance: 0, windowAge: 0, sinceProgress: 0, missingFor: 0, noPathFor: 0
+        };
+        this.emit({ commandId: id, command: cmd, source: entry.source, status: 'STARTED' });
+
+        // 3. Execute Capability Logic (registered in capability-registry)
+        const capability = getCapability(cmd.type);
+        if (!capability) {
+            console.warn(`[CapabilityEngine] Unknown capability: ${cmd.type}`);
+            this.finish('FAILED', 'unknown capability');
+            return;
         }
+        const problem = checkCapabilityParams(cmd.type, cmd.params ?? {})[0] ?? capability.precondition?.(this.context, cmd) ?? null;
+        if (problem) {
+            this.finish('FAILED', problem);
+            return;
+        }
+
+        this.track(id, capability.execute(this.context, cmd));
     }
 
-    // --- PRIMITIVE ACTIONS ---
+    /** Watch a RUNNING result (a command or its next phase); anything else ends the command */
+    private track(id: number, result: ExecuteResult) {
+        const tracked = this.tracked;
+        if (!tracked || tracked.id !== id) {
+            // Ended (or replaced) while executing; nothing of this phase will run
+            if (result.status === 'RUNNING') result.onEnd?.('CANCELLED');
+            return;
+        }
+        if (result.status !== 'RUNNING') {
+            this.finish(result.status, result.reason);
+            return;
+        }
 
-    private setPosture(posture: Posture) {
-        this.currentPosture = posture;
+        const previous = tracked.running;
+        tracked.running = result;
+        tracked.age = 0;
+        tracked.timeout = Infinity;
+        tracked.windowAge = 0;
+        tracked.sinceProgress = 0;
+        tracked.missingFor = 0;
+        tracked.noPathFor = 0;
+        // A phase that brings its own cleanup replaces the last one's; otherwise keep it
+        if (previous?.onEnd && !result.onEnd) result.onEnd = previous.onEnd;
+        if (result.goal && !result.openEnded) this.startTravel();
     }
 
-    private resetTacticalBehaviors() {
-        this.seekBehavior.active = false;
-        this.arriveBehavior.active = false;
-        this.wanderBehavior.active = false;
+    /** The current phase is done: start the next one, or succeed */
+    private completePhase(running: RunningResult, reason: string) {
+        if (running.next) this.track(this.tracked!.id, running.next());
+        else this.finish('SUCCEEDED', running.doneReason ?? reason);
     }
 
-    // --- IMPLEMENTATIONS ---
+    // --- LIFECYCLE ---
 
-    private executeIdle() {
-        this.vehicle.velocity.set(0, 0, 0);
+    private emit(event: CapabilityEvent) {
+        this.listeners.forEach(listener => listener(event));
     }
 
-    private executeNavigateToAnchor(targetName: string) {
-        if (!targetName) return;
-        const pos = this.registry.getPosition(targetName);
-        if (pos) {
-            this.arriveBehavior.target.copy(pos as unknown as YUKA.Vector3);
-            this.arriveBehavior.active = true;
+    /** End the tracked command; failures stop the agent instead of pushing on */
+    private finish(status: 'SUCCEEDED' | 'FAILED' | 'CANCELLED', reason: string) {
+        const tracked = this.tracked;
+        if (!tracked) return;
+        this.tracked = null;
+
+        if (status === 'FAILED') {
+            console.log(`[CapabilityEngine] ${tracked.command.type} failed: ${reason}`);
+            this.resetTacticalBehaviors();
+            this.vehicle.velocity.set(0, 0, 0);
         }
+        // A held order that can't be kept (e.g. follow target lost) is over
+        if (status !== 'SUCCEEDED' && this.active?.id === tracked.id) this.holding = false;
+        tracked.running?.onEnd?.(status);
+        this.emit({ commandId: tracked.id, command: tracked.command, source: tracked.source, status, reason });
     }
 
-    private executeNavigateToCoord(x: number, y: number, z: number) {
-        if (x === undefined || z === undefined) return;
-        this.arriveBehavior.target.set(x, y || 0, z);
-        this.arriveBehavior.active = true;
+    /** Distance-based timeout for a command that has to get somewhere */
+    private startTravel() {
+        const tracked = this.tracked;
+        const goal = tracked?.running?.goal?.();
+        if (!tracked || !goal) return;
+
+        const distance = this.remainingDistance(goal);
+        const speed = this.POSTURE_SPEEDS[this.currentPosture] || this.POSTURE_SPEEDS['WALK'];
+        tracked.startDistance = distance;
+        tracked.windowDistance = distance;
+        tracked.timeout = Math.max(MIN_TIMEOUT, 3 * distance / speed);
     }
 
-    private executeFollow(targetName: string) {
-        const pos = this.registry.getPosition(targetName);
-        if (pos) {
-            this.arriveBehavior.target.copy(pos as unknown as YUKA.Vector3);
-            this.arriveBehavior.active = true;
+    /** m still to go: along the path's remaining corners when following one */
+    private remainingDistance(goal: THREE.Vector3): number {
+        const next = this.followPathBehavior.active ? this.route.indexOf(this.followPathBehavior.path.current()) : -1;
+        if (next < 0) return this.flatDistanceTo(goal);
+
+        let distance = this.flatDistance(this.route[next], this.vehicle.position);
+        for (let i = next + 1; i < this.route.length; i++) distance += this.flatDistance(this.route[i - 1], this.route[i]);
+        return distance;
+    }
+
+    private flatDistanceTo(goal: THREE.Vector3): number {
+        return this.flatDistance(goal, this.vehicle.position);
+    }
+
+    private flatDistance(a: { x: number; z: number }, b: { x: number; z: number }): number {
+        const dx = a.x - b.x;
+        const dz = a.z - b.z;
+        return Math.sqrt(dx * dx + dz * dz);
+    }
+
+    /**
+     * Completion detection, every frame:
+     * arrival within tolerance, target lost, no headway (path blocked), timeout.
+     * Actions on the spot run out their duration; open-ended ones (follow) never
+     * complete on their own and run until replaced or the target is lost.
+     */
+    private monitor(delta: number) {
+        const tracked = this.tracked;
+        const running = tracked?.running;
+        if (!tracked || !running) return;
+        tracked.age += delta;
+
+        if (running.faceTarget) this.faceTarget(delta);
+        if (running.pose === 'SITTING') this.vehicle.velocity.set(0, 0, 0);
+        if (running.duration !== undefined && tracked.age >= running.duration) {
+            this.completePhase(running, 'done');
+            return;
+        }
+        if (!running.goal) return;
+
+        const goal = running.goal();
+        if (!goal) {
+            tracked.missingFor += delta;
+            if (tracked.missingFor > TARGET_LOST_GRACE) this.finish('FAILED', 'target lost');
+            return;
+        }
+        tracked.missingFor = 0;
+
+        if (running.pace) {
+            this.setPosture(running.pace());
+            this.vehicle.maxSpeed = this.POSTURE_SPEEDS[this.currentPosture];
+        }
+        if (running.chase) this.chase(goal, running.arrivalTolerance ?? ARRIVAL_TOLERANCE);
+        // A moving goal (followed entity, formation slot) drifted off the route: plan again
+        this.sinceRepath += delta;
+        if (this.plannedGoal && (this.arriveBehavior.active || this.followPathBehavior.active)
+            && this.sinceRepath >= REPATH_INTERVAL && this.flatDistance(goal, this.plannedGoal) > REPATH_DISTANCE) {
+            this.travelTo(goal);
+        }
+        // Open-ended commands never time out, so an unreachable goal has to fail them here
+        if (this.pathFailed) {
+            tracked.noPathFor += delta;
+            if (tracked.noPathFor > NO_PATH_GRACE) {
+                this.finish('FAILED', 'no path');
+                return;
+            }
+        } else {
+            tracked.noPathFor = 0;
+        }
+        if (running.openEnded) return;
+
+        const distance = this.flatDistanceTo(goal);
+        if (distance <= (running.arrivalTolerance ?? ARRIVAL_TOLERANCE)) {
+            this.completePhase(running, 'arrived');
+            return;
+        }
+        // Headway is measured along the route, so detours (around water) don't count as stuck
+        const remaining = this.remainingDistance(goal);
+        if (tracked.age > tracked.timeout) {
+            this.finish('FAILED', `timeout after ${Math.round(tracked.age)}s, ${remaining.toFixed(1)}m short`);
+            return;
+        }
+
+        tracked.windowAge += delta;
+        if (tracked.windowAge >= STUCK_WINDOW) {
+            if (tracked.windowDistance - remaining < STUCK_MIN_GAIN) {
+                this.finish('FAILED', `path blocked, ${remaining.toFixed(1)}m short`);
+                return;
+            }
+            tracked.windowAge = 0;
+            tracked.windowDistance = remaining;
+        }
+
+        tracked.sinceProgress += delta;
+        if (tracked.sinceProgress >= PROGRESS_INTERVAL) {
+            tracked.sinceProgress = 0;
+            const progress = tracked.startDistance > 0 ? Math.max(0, Math.min(1, 1 - remaining / tracked.startDistance)) : 1;
+            this.emit({ commandId: tracked.id, command: tracked.command, source: tracked.source, status: 'PROGRESS', progress });
         }
     }
 
-    private executeSocialInteract(targetName: string) {
-        const pos = this.registry.getPosition(targetName);
-        if (pos) {
-            // Social interaction needs to be closer, maybe change thresholds?
-            // For now, use same follow logic but maybe we update thresholds dynamicly
-            this.arriveBehavior.target.copy(pos as unknown as YUKA.Vector3);
+    /** Seconds into the current wave, or null when not waving */
+    public getGestureTime(): number | null {
+        return this.tracked?.command.type === 'GESTURE_WAVE' ? this.tracked.age : null;
+    }
+
+    /** Posture the agent moves with */
+    public getPosture(): Posture {
+        return this.currentPosture;
+    }
+
+    /** Pose the current command holds the body in, or null */
+    public getPose(): AgentPose | null {
+        return this.tracked?.running?.pose ?? null;
+    }
+
+    /** Where head and torso should point (LOOK_AT), or null */
+    public getLookTarget(): THREE.Vector3 | null {
+        if (!this.tracked?.running?.lookAtTarget || !this.activeTargetId) return null;
+        return this.registry.getPosition(this.activeTargetId);
+    }
+
+    // --- PRIMITIVE ACTIONS ---
+
+    /** Turn (on the spot, level) toward the active target */
+    private faceTarget(delta: number) {
+        const target = this.activeTargetId ? this.registry.getPosition(this.activeTargetId) : null;
+        if (!target) return;
+        const level = new YUKA.Vector3(target.x, this.vehicle.position.y, target.z);
+        this.vehicle.rotateTo(level, delta);
+    }
+
+    /** Steer to a moving goal; stop within `stopAt`, resume once it's the dead zone further away */
+    private chase(goal: THREE.Vector3, stopAt: number) {
+        const distance = this.flatDistanceTo(goal);
+        const resumeAt = stopAt + (this.RESUME_THRESHOLD - this.STOP_THRESHOLD);
+
+        if (this.isResting ? distance <= resumeAt : distance < stopAt) {
+            this.isResting = true;
+            this.pathFailed = false; // Close enough, however it got here
+            this.arriveBehavior.active = false;
+            this.followPathBehavior.active = false;
+            this.vehicle.velocity.set(0, 0, 0);
+        } else {
+            this.isResting = false;
+            // Standing still: plan a way there (retrying an unreachable goal only every REPATH_INTERVAL)
+            const idle = !this.arriveBehavior.active && !this.followPathBehavior.active;
+            if (idle && (!this.pathFailed || this.sinceRepath >= REPATH_INTERVAL)) this.travelTo(goal);
+            else if (this.arriveBehavior.active) this.arriveBehavior.target.set(goal.x, goal.y, goal.z);
+        }
+    }
+
+    /**
+     * Head for a point: along a NavMesh path when the way isn't straight, else
+     * straight there (arrive). False when the NavMesh knows no way there; the
+     * agent then stays put. Without a NavMesh (scene still loading) it goes straight.
+     */
+    private travelTo(position: THREE.Vector3 | YUKA.Vector3): boolean {
+        const navMesh = this.registry.getNavMesh();
+        const path = navMesh?.findPath(this.vehicle.position, position);
+        const waypoints = this.followPathBehavior.path.clear();
+        this.followPathBehavior.active = false;
+        this.plannedGoal = null;
+        this.sinceRepath = 0;
+
+        this.pathFailed = !!navMesh && !path;
+        if (this.pathFailed) {
+            this.arriveBehavior.active = false;
+            return false;
+        }
+
+        this.plannedGoal = new THREE.Vector3(position.x, position.y, position.z);
+        if (path && path.points.length > 2) {
+            this.route = path.points.slice(1).map(p => new YUKA.Vector3(p.x, p.y, p.z));
+            this.route.forEach(corner => waypoints.add(corner));
+            this.followPathBehavior.active = true;
+            this.arriveBehavior.active = false;
+        } else {
+            this.arriveBehavior.target.set(position.x, position.y, position.z);
             this.arriveBehavior.active = true;
         }
+        return true;
+    }
+
+    private setPosture(posture: Posture) {
+        this.currentPosture = posture;
+    }
+
+    private resetTacticalBehaviors() {
+        this.seekBehavior.active = false;
+        this.arriveBehavior.active = false;
+        this.wanderBehavior.active = false;
+        this.followPathBehavior.active = false;
+        this.followPathBehavior.path.clear();
+        this.plannedGoal = null;
+        this.pathFailed = false;
     }
 }
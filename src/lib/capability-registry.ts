@@ -0,0 +1,440 @@
+import * as YUKA from 'yuka';
+import * as THREE from 'three';
+import type { WorldRegistry } from './yuka-oracle';
+import AIManager from '../components/Systems/AIManager';
+import { FORMATION_SHAPES, type FormationShape } from '../components/Systems/FormationManager';
+import { WAVE_DURATION } from '../components/Entities/robotAnimations';
+import { CAPABILITY_SPECS, getSquadCommand, registerCapabilitySpec, type CapabilityCommand, type CapabilitySpec, type CapabilityType, type Posture } from './capabilities';
+import { getPersona } from './personas';
+import { useGameStore } from '@/store/gameStore';
+
+/**
+ * Capability Registry (client)
+ * How each capability is carried out. CapabilityEngine looks commands up here,
+ * so a module can add a capability by calling registerCapability() once at
+ * import time; its spec goes into the shared catalog (and from there into the
+ * Neocortex prompt and the AI Console).
+ */
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** What an executor may do with the agent (provided by its CapabilityEngine) */
+export interface CapabilityContext {
+    agentId: string;
+    vehicle: YUKA.Vehicle;
+    registry: WorldRegistry;
+    /** How close FOLLOW / SOCIAL stop from their target (m) */
+    stopDistance: number;
+    /** Steer to a point (around water and obstacles), slowing down on arrival; false when the NavMesh knows no way there */
+    arriveAt(position: THREE.Vector3 | YUKA.Vector3): boolean;
+    /** Stand still */
+    stop(): void;
+    /** Entity the agent keeps track of (followed, faced, talked to) */
+    setTarget(id: string | null): void;
+}
+
+/** Body pose held while a command runs (animated by useYukaAI) */
+export type AgentPose = 'SITTING';
+
+/** Still going: the engine watches it until it arrives, times out or runs out its duration */
+export interface RunningResult {
+    status: 'RUNNING';
+    /** Where it's heading, read every frame; null = target lost. Omit for actions on the spot */
+    goal?: () => THREE.Vector3 | null;
+    /** m from the goal that counts as arrived (default 1.5) */
+    arrivalTolerance?: number;
+    /** Never completes by arriving (e.g. follow); runs until replaced or the target is lost */
+    openEnded?: boolean;
+    /** s; actions on the spot succeed after this long */
+    duration?: number;
+    /** Turn toward the target while running */
+    faceTarget?: boolean;
+    /** Turn head and torso (not the body) toward the target while running */
+    lookAtTarget?: boolean;
+    /** Keep steering to a moving goal (with openEnded), standing still while close enough */
+    chase?: boolean;
+    /** Posture to move with, read every frame (e.g. a formation's pace) */
+    pace?: () => Posture;
+    pose?: AgentPose;
+    /** Reason reported when it succeeds (default "arrived" / "done") */
+    doneReason?: string;
+    /** Next phase once arrived / the duration is up (e.g. walk to a seat, then sit); default: succeed */
+    next?: () => ExecuteResult;
+    /** Cleanup when the command ends, however it ends (e.g. free a reserved seat) */
+    onEnd?: (status: 'SUCCEEDED' | 'FAILED' | 'CANCELLED') => void;
+}
+
+export type ExecuteResult =
+    | { status: 'SUCCEEDED' | 'FAILED'; reason: string }
+    | RunningResult;
+
+export interface CapabilityDefinition extends CapabilitySpec {
+    name: CapabilityType;
+    /** Why the command can't run right now, or null. Checked after the param schema */
+    precondition?: (ctx: CapabilityContext, cmd: CapabilityCommand) => string | null;
+    execute: (ctx: CapabilityContext, cmd: CapabilityCommand) => ExecuteResult;
+}
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+const definitions: Map<string, CapabilityDefinition> = new Map();
+
+/** Add a capability (or replace one, built-ins included) */
+export function registerCapability(definition: CapabilityDefinition): void {
+    const { name, description, params, llmSelectable } = definition;
+    if (definitions.has(name)) console.warn(`[CapabilityRegistry] Replacing ${name}`);
+    definitions.set(name, definition);
+    registerCapabilitySpec(name, { description, params, llmSelectable });
+}
+
+export function getCapability(name: string): CapabilityDefinition | undefined {
+    return definitions.get(name);
+}
+
+/** Every capability that can be executed, built-ins first */
+export function listRegisteredCapabilities(): CapabilityDefinition[] {
+    return Array.from(definitions.values());
+}
+
+// =============================================================================
+// BUILT-INS
+// =============================================================================
+
+const SIT_DURATION = 20;     // s seated unless the command says otherwise
+const LOOK_DURATION = 3;     // s
+const INSPECT_DURATION = 2;  // s spent looking once there
+const INSPECT_RADIUS = 10;   // m; who counts as "around" an inspected landmark
+const INSPECT_REACH = 4;     // m from the landmark counts as close enough to look
+const BOX_REACH = 2.5;       // m from a box to pick it up / from the drop point to put it down
+const SLOT_TOLERANCE = 0.75; // m from a formation slot counts as in place
+const FOLLOW_RUN_AT = 15;    // m behind the followed entity to break into a run
+const FOLLOW_WALK_AT = 10;   // m; closer than this and the follower drops back to the ordered posture
+
+const entityName = (id: string) => id === 'player-01' ? 'the player' : getPersona(id).name;
+
+const targetKnown = (ctx: CapabilityContext, cmd: CapabilityCommand) =>
+    ctx.registry.getPosition(cmd.params?.target) ? null : `target "${cmd.params?.target}" not found`;
+
+/** Follower's pace: run when falling far behind, back to the ordered posture once caught up */
+function followPace(ctx: CapabilityContext, cmd: CapabilityCommand): () => Posture {
+    const ordered: Posture = cmd.posture ?? 'WALK';
+    let posture = ordered;
+    return () => {
+        const target = ctx.registry.getPosition(cmd.params?.target);
+        const distance = target ? ctx.vehicle.position.distanceTo(target as unknown as YUKA.Vector3) : 0;
+        if (distance > FOLLOW_RUN_AT) posture = 'RUN';
+        else if (distance < FOLLOW_WALK_AT) posture = ordered;
+        return posture;
+    };
+}
+
+registerCapability({
+    name: 'IDLE',
+    ...CAPABILITY_SPECS.IDLE,
+    execute: (ctx) => {
+        ctx.stop();
+        return { status: 'SUCCEEDED', reason: 'idling' };
+    }
+});
+
+registerCapability({
+    name: 'NAVIGATE_TO_ANCHOR',
+    ...CAPABILITY_SPECS.NAVIGATE_TO_ANCHOR,
+    precondition: (ctx, cmd) => ctx.registry.getPosition(cmd.params?.target) ? null : `unknown landmark "${cmd.params?.target}"`,
+    execute: (ctx, cmd) => {
+        const goal = ctx.registry.getPosition(cmd.params?.target)!.clone();
+        if (!ctx.arriveAt(goal)) return { status: 'FAILED', reason: `no path to ${cmd.params?.target}` };
+        return { status: 'RUNNING', goal: () => goal };
+    }
+});
+
+registerCapability({
+    name: 'NAVIGATE_TO_COORD',
+    ...CAPABILITY_SPECS.NAVIGATE_TO_COORD,
+    execute: (ctx, cmd) => {
+        const goal = new THREE.Vector3(cmd.params?.x, cmd.params?.y || 0, cmd.params?.z);
+        if (!ctx.arriveAt(goal)) return { status: 'FAILED', reason: `no path to (${goal.x.toFixed(1)}, ${goal.z.toFixed(1)})` };
+        return { status: 'RUNNING', goal: () => goal };
+    }
+});
+
+registerCapability({
+    name: 'FOLLOW_ENTITY',
+    ...CAPABILITY_SPECS.FOLLOW_ENTITY,
+    precondition: targetKnown,
+    execute: (ctx, cmd) => {
+        ctx.setTarget(cmd.params?.target);
+        if (!ctx.arriveAt(ctx.registry.getPosition(cmd.params?.target)!)) return { status: 'FAILED', reason: `no path to ${entityName(cmd.params?.target)}` };
+        return {
+            status: 'RUNNING',
+            goal: () => ctx.registry.getPosition(cmd.params?.target),
+            arrivalTolerance: ctx.stopDistance,
+            openEnded: true,
+            chase: true,
+            pace: followPace(ctx, cmd)
+        };
+    }
+});
+
+registerCapability({
+    name: 'SOCIAL_INTERACT',
+    ...CAPABILITY_SPECS.SOCIAL_INTERACT,
+    precondition: targetKnown,
+    execute: (ctx, cmd) => {
+        ctx.setTarget(cmd.params?.target);
+        if (!ctx.arriveAt(ctx.registry.getPosition(cmd.params?.target)!)) return { status: 'FAILED', reason: `no path to ${entityName(cmd.params?.target)}` };
+        return { status: 'RUNNING', goal: () => ctx.registry.getPosition(cmd.params?.target), arrivalTolerance: ctx.stopDistance, chase: true };
+    }
+});
+
+// Stop and turn to wave (animated from CapabilityEngine.getGestureTime()); other agents' perception picks this up
+registerCapability({
+    name: 'GESTURE_WAVE',
+    ...CAPABILITY_SPECS.GESTURE_WAVE,
+    execute: (ctx, cmd) => {
+        ctx.setTarget(cmd.params?.target ?? null);
+        ctx.stop();
+        return { status: 'RUNNING', duration: WAVE_DURATION, faceTarget: true, doneReason: 'waved' };
+    }
+});
+
+registerCapability({
+    name: 'HOLD_POSITION',
+    ...CAPABILITY_SPECS.HOLD_POSITION,
+    execute: (ctx) => {
+        ctx.stop();
+        return { status: 'SUCCEEDED', reason: 'holding' };
+    }
+});
+
+// Hand the order to the squad; done once the members have acknowledged (or refused)
+registerCapability({
+    name: 'SQUAD_ORDER',
+    ...CAPABILITY_SPECS.SQUAD_ORDER,
+    precondition: (_ctx, cmd) => getSquadCommand(cmd) ? null : `"${cmd.params?.order}" is not an order a squad can follow`,
+    execute: (ctx, cmd) => {
+        ctx.stop();
+        const order = AIManager.getInstance().dispatchSquadOrder(ctx.agentId, cmd.params?.group, getSquadCommand(cmd)!);
+        const receipts = Object.entries(order.receipts);
+        const name = (id: string) => getPersona(id).name;
+        const refused = receipts.filter(([, r]) => r.status === 'REFUSED').map(([id]) => name(id));
+        const accepted = receipts.filter(([, r]) => r.status !== 'REFUSED').map(([id]) => name(id));
+
+        if (accepted.length === 0) {
+            return { status: 'FAILED', reason: receipts.length === 0 ? `nobody else in squad "${cmd.params?.group}"` : `refused by ${refused.join(', ')}` };
+        }
+        return { status: 'SUCCEEDED', reason: `acknowledged by ${accepted.join(', ')}${refused.length > 0 ? `; refused by ${refused.join(', ')}` : ''}` };
+    }
+});
+
+// Reserve the seat, walk up, sit (snapped onto it), stand up when the time is over or the command ends
+registerCapability({
+    name: 'SIT_ON',
+    ...CAPABILITY_SPECS.SIT_ON,
+    precondition: (ctx, cmd) => {
+        const seat = useGameStore.getState().interactables.find(i => i.id === cmd.params?.target);
+        if (!seat) return `no seat "${cmd.params?.target}"`;
+        const holder = AIManager.getInstance().getReservation(seat.id);
+        if (!holder || holder === ctx.agentId) return null;
+        return `${entityName(holder)} is sitting there`;
+    },
+    execute: (ctx, cmd) => {
+        const seat = useGameStore.getState().interactables.find(i => i.id === cmd.params?.target)!;
+        const manager = AIManager.getInstance();
+        if (!ctx.arriveAt(seat.position)) return { status: 'FAILED', reason: `no path to ${seat.id}` };
+        manager.reserve(seat.id, ctx.agentId);
+
+        return {
+            status: 'RUNNING',
+            goal: () => seat.position,
+            next: () => {
+                ctx.stop();
+                ctx.vehicle.position.x = seat.position.x;
+                ctx.vehicle.position.z = seat.position.z;
+                ctx.vehicle.rotation.copy(seat.rotation as unknown as YUKA.Quaternion);
+                return { status: 'RUNNING', pose: 'SITTING', duration: cmd.params?.duration ?? SIT_DURATION, doneReason: 'sat a while' };
+            },
+            onEnd: () => manager.releaseReservation(seat.id, ctx.agentId)
+        };
+    }
+});
+
+registerCapability({
+    name: 'LOOK_AT',
+    ...CAPABILITY_SPECS.LOOK_AT,
+    precondition: targetKnown,
+    execute: (ctx, cmd) => {
+        ctx.setTarget(cmd.params?.target);
+        ctx.stop();
+        return { status: 'RUNNING', duration: LOOK_DURATION, lookAtTarget: true, doneReason: 'looked' };
+    }
+});
+
+/** What an agent notices about a landmark: what it is and who's around */
+function observe(ctx: CapabilityContext, id: string): string {
+    const anchor = ctx.registry.getAnchor(id);
+    const position = ctx.registry.getPosition(id)!;
+    const around = [...AIManager.getInstance().getAgentIds(), 'player-01']
+        .filter(other => other !== ctx.agentId && (ctx.registry.getPosition(other)?.distanceTo(position) ?? Infinity) < INSPECT_RADIUS)
+        .map(entityName);
+    const what = anchor ? `${anchor.tags.join('/') || 'landmark'} in ${anchor.zone}` : 'something that moves';
+    return `${id} is ${what}; ${around.length > 0 ? `${around.join(', ')} nearby` : 'nobody around'}`;
+}
+
+// Walk up, look for a moment; the observation is the outcome's reason, which the brain remembers
+registerCapability({
+    name: 'INSPECT',
+    ...CAPABILITY_SPECS.INSPECT,
+    precondition: targetKnown,
+    execute: (ctx, cmd) => {
+        const target: string = cmd.params?.target;
+        ctx.setTarget(target);
+        if (!ctx.arriveAt(ctx.registry.getPosition(target)!)) return { status: 'FAILED', reason: `no path to ${entityName(target)}` };
+        return {
+            status: 'RUNNING',
+            goal: () => ctx.registry.getPosition(target),
+            arrivalTolerance: INSPECT_REACH,
+            next: () => {
+                ctx.stop();
+                return { status: 'RUNNING', duration: INSPECT_DURATION, faceTarget: true, next: () => ({ status: 'SUCCEEDED', reason: observe(ctx, target) }) };
+            }
+        };
+    }
+});
+
+registerCapability({
+    name: 'CARRY',
+    ...CAPABILITY_SPECS.CARRY,
+    precondition: (ctx, cmd) => {
+        const boxes = AIManager.getInstance().getBoxSystem();
+        if (!boxes) return 'no boxes around';
+        const carried = boxes.getCarried(ctx.agentId);
+        if (carried) return `already carrying ${carried.id}`;
+        const box = boxes.getBox(cmd.params?.target);
+        if (!box) return `no loose box "${cmd.params?.target}"`;
+        return box.claimedBy && box.claimedBy !== ctx.agentId ? `${box.id} is taken by ${box.claimedBy}` : null;
+    },
+    execute: (ctx, cmd) => {
+        const boxes = AIManager.getInstance().getBoxSystem()!;
+        const box = boxes.getBox(cmd.params?.target)!;
+        if (!ctx.arriveAt(box.position)) return { status: 'FAILED', reason: `no path to ${box.id}` };
+        boxes.claimBox(box.id, ctx.agentId);
+
+        return {
+            status: 'RUNNING',
+            goal: () => boxes.getBox(box.id)?.position ?? null,
+            arrivalTolerance: BOX_REACH,
+            next: () => {
+                ctx.stop();
+                boxes.pickUpBox(box.id, ctx.agentId);
+                return { status: 'SUCCEEDED', reason: `picked up ${box.id}` };
+            },
+            onEnd: (status) => { if (status !== 'SUCCEEDED') boxes.releaseBox(box.id, ctx.agentId); }
+        };
+    }
+});
+
+registerCapability({
+    name: 'PLACE',
+    ...CAPABILITY_SPECS.PLACE,
+    precondition: (ctx, cmd) => {
+        const boxes = AIManager.getInstance().getBoxSystem();
+        if (!boxes?.getCarried(ctx.agentId)) return 'not carrying anything';
+        if (typeof cmd.params?.target === 'string' && !ctx.registry.getPosition(cmd.params.target)) return `unknown landmark "${cmd.params.target}"`;
+        return null;
+    },
+    execute: (ctx, cmd) => {
+        const boxes = AIManager.getInstance().getBoxSystem()!;
+        const box = boxes.getCarried(ctx.agentId)!;
+        const p = cmd.params ?? {};
+
+        // On the floor at a landmark or coordinates; otherwise the next slot of the construction wall
+        let spot: THREE.Vector3;
+        let where: string;
+        if (typeof p.target === 'string') {
+            spot = ctx.registry.getPosition(p.target)!.clone().setY(ctx.vehicle.position.y + 1);
+            where = p.target;
+        } else if (typeof p.x === 'number' && typeof p.z === 'number') {
+            spot = new THREE.Vector3(p.x, ctx.vehicle.position.y + 1, p.z);
+            where = `(${p.x.toFixed(1)}, ${p.z.toFixed(1)})`;
+        } else {
+            spot = boxes.getNextConstructionSlot();
+            where = 'the construction site';
+        }
+        if (!ctx.arriveAt(spot)) return { status: 'FAILED', reason: `no path to ${where}` };
+
+        return {
+            status: 'RUNNING',
+            goal: () => spot,
+            arrivalTolerance: BOX_REACH,
+            next: () => {
+                ctx.stop();
+                boxes.placeBox(spot, ctx.agentId);
+                return { status: 'SUCCEEDED', reason: `put ${box.id} down at ${where}` };
+            }
+        };
+    }
+});
+
+// Expand into one KEEP_FORMATION slot order per squad member (see FormationManager)
+registerCapability({
+    name: 'FORMATION',
+    ...CAPABILITY_SPECS.FORMATION,
+    precondition: (ctx, cmd) => {
+        const shape = String(cmd.params?.shape).toUpperCase();
+        const leader: string = cmd.params?.leader ?? ctx.agentId;
+        if (shape === 'BREAK') {
+            return AIManager.getInstance().formations.getByLeader(leader) ? null : `no formation on ${entityName(leader)}`;
+        }
+        if (!FORMATION_SHAPES.includes(shape as FormationShape)) return `unknown formation "${cmd.params?.shape}"`;
+        if (!ctx.registry.getPosition(leader)) return `leader "${leader}" not found`;
+        return cmd.params?.target && !ctx.registry.getPosition(cmd.params.target) ? `target "${cmd.params.target}" not found` : null;
+    },
+    execute: (ctx, cmd) => {
+        const formations = AIManager.getInstance().formations;
+        const shape = String(cmd.params?.shape).toUpperCase();
+        const leader: string = cmd.params?.leader ?? ctx.agentId;
+
+        if (shape === 'BREAK') {
+            formations.disband(formations.getByLeader(leader)!.id);
+            return { status: 'SUCCEEDED', reason: `formation on ${entityName(leader)} dismissed` };
+        }
+
+        const formation = formations.form(leader, cmd.params?.group, shape as FormationShape, cmd.params?.target ?? leader, ctx.agentId);
+        if (formation.members.length === 0) {
+            formations.disband(formation.id);
+            return { status: 'FAILED', reason: `nobody in squad "${cmd.params?.group}" would form up` };
+        }
+        return { status: 'SUCCEEDED', reason: `${shape} on ${entityName(leader)}: ${formation.members.map(entityName).join(', ')}` };
+    }
+});
+
+// Hold the slot as it moves with the leader; leaving it (any other order) frees it for the rest
+registerCapability({
+    name: 'KEEP_FORMATION',
+    ...CAPABILITY_SPECS.KEEP_FORMATION,
+    precondition: (ctx, cmd) => AIManager.getInstance().formations.getSlot(cmd.params?.formation, ctx.agentId) ? null : `not in formation ${cmd.params?.formation}`,
+    execute: (ctx, cmd) => {
+        const formations = AIManager.getInstance().formations;
+        const id: number = cmd.params?.formation;
+        return {
+            status: 'RUNNING',
+            goal: () => formations.getSlot(id, ctx.agentId),
+            arrivalTolerance: SLOT_TOLERANCE,
+            openEnded: true,
+            chase: true,
+            pace: () => formations.getPosture(id, ctx.agentId),
+            onEnd: () => formations.leave(id, ctx.agentId)
+        };
+    }
+});
+
+registerCapability({
+    name: 'INTERNAL_THOUGHT',
+    ...CAPABILITY_SPECS.INTERNAL_THOUGHT,
+    execute: () => ({ status: 'SUCCEEDED', reason: 'thought' })
+});
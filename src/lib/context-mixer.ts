@@ -105,6 +105,11 @@ export class VisualCortexShard {
             .slice(0, this.maxEntities);
     }
 
+    /** Visible entities, nearest first */
+    getEntities(): PerceivedEntity[] {
+        return [...this.entities];
+    }
+
     toContext(): string {
         if (this.entities.length === 0) return "No entities in sight.";
         const rows = this.entities.map(e =>
@@ -124,7 +129,9 @@ export class VisualCortexShard {
 
 export class HippocampusShard {
     private recentMemories: MemoryEntry[] = [];
+    private archive: MemoryEntry[] = []; // Rolling long-term store, newest first
     private maxRecent = 5;
+    private maxArchive = 50;
 
     addMemory(content: string, type: MemoryEntry['type'], importance: number = 0.5): void {
         const entry: MemoryEntry = {
@@ -136,7 +143,8 @@ export class HippocampusShard {
         };
         this.recentMemories.unshift(entry);
         if (this.recentMemories.length > this.maxRecent) {
-            this.recentMemories.pop();
+            // Dreamer didn't get to it in time: keep it in the archive rather than forget
+            this.archiveEntries([this.recentMemories.pop()!]);
         }
     }
 
@@ -145,12 +153,47 @@ export class HippocampusShard {
         return this.recentMemories.map(m => `- ${m.content}`).join('\n');
     }
 
+    /** Keyword search over recent and archived memories, best matches first */
+    recall(query: string, limit: number = 3): MemoryEntry[] {
+        const words = query.toLowerCase().split(/\W+/).filter(w => w.length > 2);
+        if (words.length === 0) return this.recentMemories.slice(0, limit);
+
+        return [...this.recentMemories, ...this.archive]
+            .map(m => ({ memory: m, score: words.filter(w => m.content.toLowerCase().includes(w)).length }))
+            .filter(r => r.score > 0)
+            .sort((a, b) => b.score - a.score || b.memory.importance - a.memory.importance)
+            .slice(0, limit)
+            .map(r => r.memory);
+    }
+
     getRawForSummary(): MemoryEntry[] {
         return [...this.recentMemories];
     }
 
+    getArchive(): MemoryEntry[] {
+        return [...this.archive];
+    }
+
+    /** Long-term memories the agent starts with (e.g. persona backstory) */
+    seedArchive(contents: string[]): void {
+        this.archiveEntries(contents.map((content, i) => ({
+            id: `seed_${i}`,
+            timestamp: Date.now(),
+            content,
+            importance: 0.9,
+            type: 'summary' as const
+        })));
+    }
+
+    /** Buffer is at capacity; the next memory will push one into the archive */
+    isFull(): boolean {
+        return this.recentMemories.length >= this.maxRecent;
+    }
+
+    /** Replace recent memories with their summary; the originals move to the archive */
     consolidate(summary: string): void {
         if (this.recentMemories.length === 0) return;
+        this.archiveEntries(this.recentMemories);
         this.recentMemories = [{
             id: `summary_${Date.now()}`,
             timestamp: Date.now(),
@@ -160,6 +203,13 @@ export class HippocampusShard {
         }];
     }
 
+    private archiveEntries(entries: MemoryEntry[]): void {
+        this.archive.unshift(...entries);
+        if (this.archive.length > this.maxArchive) {
+            this.archive.length = this.maxArchive;
+        }
+    }
+
     getRelevance(trigger: TriggerType): number {
         switch (trigger) {
             case 'MEMORY_RECALL': return 1.0;
@@ -217,12 +267,19 @@ export class SocialShard {
 
 export class AmygdalaShard {
     private state: EmotionalState = { valence: 0.6, arousal: 0.3 };
+    private baseline: EmotionalState = { valence: 0.5, arousal: 0.3 };
+
+    /** Set the resting mood (persona temperament) and start from it */
+    setBaseline(baseline: EmotionalState): void {
+        this.baseline = { ...baseline };
+        this.state = { ...baseline };
+    }
 
     update(valenceDelta: number, arousalDelta: number): void {
         this.state.valence = Math.max(0, Math.min(1, this.state.valence + valenceDelta));
         this.state.arousal = Math.max(0, Math.min(1, this.state.arousal + arousalDelta));
-        this.state.valence += (0.5 - this.state.valence) * 0.01;
-        this.state.arousal += (0.3 - this.state.arousal) * 0.02;
+        this.state.valence += (this.baseline.valence - this.state.valence) * 0.01;
+        this.state.arousal += (this.baseline.arousal - this.state.arousal) * 0.02;
     }
 
     toContext(): string {
@@ -259,6 +316,11 @@ export class FrontalShard {
         if (goal) goal.progress = Math.min(1, progress);
     }
 
+    /** Active goals, highest priority first */
+    getGoals(): ActiveGoal[] {
+        return this.goals.map(g => ({ ...g }));
+    }
+
     completeGoal(goalId: string): void {
         this.goals = this.goals.filter(g => g.id !== goalId);
     }
@@ -290,6 +352,7 @@ interface ShardContribution {
 }
 
 export class ContextMixer {
+    private agentId: string;
     private visualCortex: VisualCortexShard;
     private hippocampus: HippocampusShard;
     private social: SocialShard;
@@ -302,6 +365,7 @@ export class ContextMixer {
 
     // Agent ID required for Spatial Shard to query WorldRegistry
     constructor(agentId: string = "unknown_agent") {
+        this.agentId = agentId;
         this.visualCortex = new VisualCortexShard();
         this.hippocampus = new HippocampusShard();
         this.social = new SocialShard();
@@ -310,6 +374,7 @@ export class ContextMixer {
         this.spatial = new SpatialShard(agentId);
     }
 
+    getAgentId(): string { return this.agentId; }
     getVisualCortex(): VisualCortexShard { return this.visualCortex; }
     getHippocampus(): HippocampusShard { return this.hippocampus; }
     getSocial(): SocialShard { return this.social; }
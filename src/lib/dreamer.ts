@@ -0,0 +1,134 @@
+/**
+ * Dreamer Scheduler (Server Side)
+ * Background memory consolidation for every agent session.
+ *
+ * Triggers:
+ * - Nightfall: the client's TimeSystem reports the isNight flip
+ * - Pressure:  an agent's Hippocampus buffer is full
+ *
+ * Consolidations run one at a time, oldest first. Like every Groq call they
+ * go through the ModelRateLimiter (in complete()), so they share each model's
+ * RPM / TPM with the agents' thoughts; a rate-limited one waits its Retry-After
+ * and goes again.
+ */
+
+import { consolidateMemories } from '@/lib/agent-core';
+import { AgentSessionRegistry } from '@/lib/agent-sessions';
+import { RateLimitError } from '@/lib/llm-queue';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type DreamReason = 'NIGHTFALL' | 'PRESSURE';
+
+export interface DreamerStats {
+    queued: string[];
+    consolidated: number;
+    skipped: number;
+    isNight: boolean;
+}
+
+// =============================================================================
+// SCHEDULER
+// =============================================================================
+
+export class DreamerScheduler {
+    private static instance: DreamerScheduler;
+
+    /** Waiting agents, oldest first */
+    private queue: Map<string, { reason: DreamReason; queuedAt: number }> = new Map();
+    private draining: boolean = false;
+    private isNight: boolean = false;
+    private consolidated: number = 0;
+    private skipped: number = 0;
+
+    private readonly MAX_WAIT_MS = 5 * 60 * 1000; // Dreams can wait, but not forever
+
+    private constructor() { }
+
+    static getInstance(): DreamerScheduler {
+        if (!DreamerScheduler.instance) {
+            DreamerScheduler.instance = new DreamerScheduler();
+        }
+        return DreamerScheduler.instance;
+    }
+
+    /** Day/night flip from the TimeSystem. Nightfall queues every active agent. */
+    setNight(isNight: boolean): void {
+        if (isNight === this.isNight) return;
+        this.isNight = isNight;
+        if (!isNight) return;
+
+        const ids = AgentSessionRegistry.getInstance().getActiveIds();
+        console.log(`[Dreamer] Nightfall: scheduling ${ids.length} agent(s) for consolidation`);
+        for (const id of ids) this.enqueue(id, 'NIGHTFALL');
+    }
+
+    /** Queue the agent if its memory buffer is full */
+    checkPressure(agentId: string): void {
+        const registry = AgentSessionRegistry.getInstance();
+        if (!registry.has(agentId)) return;
+        if (registry.get(agentId).mixer.getHippocampus().isFull()) {
+            this.enqueue(agentId, 'PRESSURE');
+        }
+    }
+
+    getStats(): DreamerStats {
+        return {
+            queued: Array.from(this.queue.keys()),
+            consolidated: this.consolidated,
+            skipped: this.skipped,
+            isNight: this.isNight
+        };
+    }
+
+    private enqueue(agentId: string, reason: DreamReason): void {
+        if (this.queue.has(agentId)) return;
+        this.queue.set(agentId, { reason, queuedAt: Date.now() });
+        console.log(`[Dreamer] Queued ${agentId} (${reason}), ${this.queue.size} waiting`);
+        void this.drain();
+    }
+
+    /** Serial worker: consolidate the oldest waiting agent until none are left */
+    private async drain(): Promise<void> {
+        if (this.draining) return;
+        this.draining = true;
+
+        while (this.queue.size > 0) {
+            const [agentId, { reason, queuedAt }] = this.queue.entries().next().value!;
+            if (Date.now() - queuedAt > this.MAX_WAIT_MS) {
+                console.log(`[Dreamer] ${agentId} dropped from queue`);
+                this.queue.delete(agentId);
+                continue;
+            }
+
+            try {
+                await this.consolidate(agentId, reason);
+            } catch (error) {
+                if (error instanceof RateLimitError) {
+                    // Stays at the front; tried again once the model has room
+                    await new Promise(resolve => setTimeout(resolve, error.retryAfterMs));
+                    continue;
+                }
+                console.error(`[Dreamer] ${agentId} failed:`, error);
+            }
+            this.queue.delete(agentId);
+        }
+
+        this.draining = false;
+    }
+
+    private async consolidate(agentId: string, reason: DreamReason): Promise<boolean> {
+        const registry = AgentSessionRegistry.getInstance();
+        if (!registry.has(agentId)) return false; // Session evicted while waiting
+
+        const started = Date.now();
+        const done = await consolidateMemories(registry.get(agentId).mixer);
+        if (done) this.consolidated++;
+        else this.skipped++;
+
+        console.log(`[Dreamer] ${agentId} (${reason}): ${done ? 'consolidated' : 'skipped'} in ${Date.now() - started}ms`);
+        return done;
+    }
+}
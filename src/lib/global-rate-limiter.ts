@@ -39,6 +39,13 @@ export class GlobalRateLimiter {
         return Math.floor(this.tokens);
     }
 
+    /** Milliseconds until `cost` tokens are available (0 if they already are) */
+    public getWaitTimeMs(cost: number = 1): number {
+        this.refill();
+        if (this.tokens >= cost) return 0;
+        return Math.ceil(((cost - this.tokens) / this.refillRate) * 1000);
+    }
+
     private refill() {
         const now = Date.now();
         const elapsed = (now - this.lastRefill) / 1000;
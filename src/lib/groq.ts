@@ -22,9 +22,39 @@ export const GROQ_MODELS = {
 
 export type GroqModelId = (typeof GROQ_MODELS)[keyof typeof GROQ_MODELS];
 
+export interface ModelLimits {
+    /** Requests per minute */
+    rpm: number;
+    /** Tokens per minute (prompt + completion) */
+    tpm: number;
+    /** Requests per day */
+    rpd: number;
+    /** Tokens per day */
+    tpd: number;
+}
+
+/**
+ * Per-model limits enforced by the provider (Groq free tier, January 2026).
+ * Check console.groq.com/settings/limits for your org and adjust here.
+ */
+export const MODEL_LIMITS: Record<GroqModelId, ModelLimits> = {
+    [GROQ_MODELS.LLAMA_4_MAVERICK]: { rpm: 30, tpm: 6000, rpd: 1000, tpd: 500000 },
+    [GROQ_MODELS.LLAMA_4_SCOUT]: { rpm: 30, tpm: 30000, rpd: 1000, tpd: 500000 },
+    [GROQ_MODELS.LLAMA_3_3_70B]: { rpm: 30, tpm: 12000, rpd: 1000, tpd: 100000 },
+    [GROQ_MODELS.LLAMA_3_1_8B]: { rpm: 30, tpm: 6000, rpd: 14400, tpd: 500000 },
+    [GROQ_MODELS.MIXTRAL_8X7B]: { rpm: 30, tpm: 5000, rpd: 14400, tpd: 500000 },
+};
+
+/**
+ * Limits for a model id, or null if we don't know them (treated as unlimited).
+ */
+export function getModelLimits(model: string): ModelLimits | null {
+    return MODEL_LIMITS[model as GroqModelId] ?? null;
+}
+
 /** 
  * Default model - Llama 4 Maverick for best 2026 performance-to-cost ratio.
- * Falls back to Llama 3.3 70B if Maverick unavailable.
+ * Fallbacks are configured per brain layer in FALLBACK_CHAINS (model-router.ts).
  */
 export const DEFAULT_MODEL: GroqModelId = GROQ_MODELS.LLAMA_4_MAVERICK;
 
@@ -47,25 +77,6 @@ export function getGroqClient(): Groq {
     return client;
 }
 
-// Runtime model selection (for future UI control)
-let currentModel: GroqModelId = DEFAULT_MODEL;
-
-/**
- * Set the active model for agent AI calls.
- * Can be called from game store or UI.
- */
-export function setActiveModel(model: GroqModelId): void {
-    currentModel = model;
-    console.log(`Groq model set to: ${model}`);
-}
-
-/**
- * Get the currently active model ID.
- */
-export function getActiveModel(): GroqModelId {
-    return currentModel;
-}
-
 /**
  * Get all available models for UI display.
  */
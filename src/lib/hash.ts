@@ -0,0 +1,19 @@
+/**
+ * Hashing helpers shared by client and server code.
+ * Not cryptographic: only for stable keys and seeds.
+ */
+
+/** 32-bit FNV-1a string hash (stable across runs and platforms) */
+export function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/** fnv1a() as 8 hex digits */
+export function fnv1aHex(text: string): string {
+    return fnv1a(text).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,139 @@
+/**
+ * LLM Cassette: record / replay for brain layer calls.
+ *
+ * record: every request goes to the real provider; request + response are
+ *         written to the cassette file, keyed by a stable hash of the request.
+ * replay: responses are served from the cassette, no network at all.
+ *         A request that was never recorded throws CassetteMissError.
+ *
+ * Enable with LLM_CASSETTE=<path> and LLM_CASSETTE_MODE=record|replay
+ * (see getLayerProvider), or wrap a provider directly in scripts.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChatRequest, ChatResult, LLMProvider, ProviderId } from '@/lib/llm-provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteEntry {
+    request: ChatRequest;
+    /** Identical requests can get different answers; replayed in order */
+    responses: ChatResult[];
+    recordedAt: string;
+}
+
+interface CassetteFile {
+    version: 1;
+    entries: Record<string, CassetteEntry>;
+}
+
+export class CassetteMissError extends Error {
+    constructor(public readonly key: string, layer: string) {
+        super(`No ${layer} response recorded for request ${key.slice(0, 12)}`);
+        this.name = 'CassetteMissError';
+    }
+}
+
+// =============================================================================
+// CASSETTE (File Store)
+// =============================================================================
+
+/**
+ * Stable key for a request: sha256 over a canonical JSON encoding,
+ * so the same prompt hashes the same across runs and machines.
+ */
+export function hashRequest(request: ChatRequest): string {
+    const canonical = JSON.stringify({
+        layer: request.layer,
+        model: request.model,
+        messages: request.messages.map(m => ({ role: m.role, content: m.content })),
+        temperature: request.temperature ?? null,
+        maxTokens: request.maxTokens ?? null,
+        jsonMode: request.jsonMode ?? false
+    });
+    return createHash('sha256').update(canonical).digest('hex');
+}
+
+export class Cassette {
+    readonly filePath: string;
+    private entries: Record<string, CassetteEntry> = {};
+    private playhead: Map<string, number> = new Map();
+    private recordedThisRun: Set<string> = new Set();
+
+    static resolvePath(filePath: string): string {
+        return path.resolve(filePath);
+    }
+
+    constructor(filePath: string) {
+        this.filePath = Cassette.resolvePath(filePath);
+        if (fs.existsSync(this.filePath)) {
+            const data = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as CassetteFile;
+            this.entries = data.entries ?? {};
+            console.log(`[Cassette] Loaded ${Object.keys(this.entries).length} recording(s) from ${this.filePath}`);
+        }
+    }
+
+    /** Next recorded response for this request (the last one repeats) */
+    play(key: string): ChatResult | null {
+        const entry = this.entries[key];
+        if (!entry || entry.responses.length === 0) return null;
+
+        const index = this.playhead.get(key) ?? 0;
+        this.playhead.set(key, index + 1);
+        return entry.responses[Math.min(index, entry.responses.length - 1)];
+    }
+
+    /** Store a response. The first recording of a key in a run replaces older takes. */
+    record(key: string, request: ChatRequest, response: ChatResult): void {
+        if (!this.recordedThisRun.has(key) || !this.entries[key]) {
+            this.recordedThisRun.add(key);
+            this.entries[key] = { request, responses: [], recordedAt: new Date().toISOString() };
+        }
+        this.entries[key].responses.push(response);
+        this.save();
+    }
+
+    private save(): void {
+        const data: CassetteFile = { version: 1, entries: this.entries };
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(data, null, 2));
+    }
+}
+
+// =============================================================================
+// PROVIDER
+// =============================================================================
+
+export class CassetteProvider implements LLMProvider {
+    readonly id: ProviderId;
+    private inner: LLMProvider;
+    private cassette: Cassette;
+    private mode: CassetteMode;
+
+    constructor(inner: LLMProvider, cassette: Cassette, mode: CassetteMode) {
+        this.id = inner.id;
+        this.inner = inner;
+        this.cassette = cassette;
+        this.mode = mode;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const key = hashRequest(request);
+
+        if (this.mode === 'replay') {
+            const recorded = this.cassette.play(key);
+            if (!recorded) throw new CassetteMissError(key, request.layer);
+            return recorded;
+        }
+
+        const result = await this.inner.chat(request);
+        this.cassette.record(key, request, result);
+        return result;
+    }
+}
@@ -0,0 +1,353 @@
+/**
+ * LLM Provider Layer
+ * Decouples the Tri-Brain layers from any single inference vendor.
+ *
+ * Providers:
+ * - groq:   Groq Cloud (default, requires GROQ_API_KEY)
+ * - openai: Any OpenAI-compatible endpoint (llama.cpp server, Ollama, vLLM...)
+ * - mock:   In-process deterministic responses (offline runs / tests)
+ *
+ * Provider and model are resolved per brain layer from the environment:
+ *   LLM_PROVIDER=groq|openai|mock          (global default)
+ *   LLM_<LAYER>_PROVIDER / LLM_<LAYER>_MODEL (per-layer override)
+ *   LLM_OPENAI_BASE_URL / LLM_OPENAI_API_KEY
+ *
+ * Any of them can be wrapped in a record/replay cassette (see llm-cassette.ts):
+ *   LLM_CASSETTE=<path> LLM_CASSETTE_MODE=record|replay
+ *
+ * Providers report 429s as RateLimitError (with Retry-After) so the
+ * request queue can pause instead of every caller retrying on its own.
+ */
+
+import Groq from 'groq-sdk';
+import { getGroqClient } from '@/lib/groq';
+import { parseRetryAfter, RateLimitError } from '@/lib/llm-queue';
+import { Cassette, CassetteProvider, type CassetteMode } from '@/lib/llm-cassette';
+import { fnv1a } from '@/lib/hash';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type BrainLayer = 'LIMBIC' | 'NEOCORTEX' | 'DREAMER';
+
+export type ProviderId = 'groq' | 'openai' | 'mock';
+
+/** Models picked at runtime (AI Console), per brain layer. Unset layers use the router. */
+export type ModelSelection = Partial<Record<BrainLayer, string>>;
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatRequest {
+    layer: BrainLayer;
+    model: string;
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    /** Ask the backend to constrain output to a JSON object */
+    jsonMode?: boolean;
+}
+
+export interface ChatUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface ChatResult {
+    content: string;
+    model: string;
+    provider: ProviderId;
+    usage?: ChatUsage;
+}
+
+export interface LLMProvider {
+    readonly id: ProviderId;
+    chat(request: ChatRequest): Promise<ChatResult>;
+}
+
+// =============================================================================
+// GROQ
+// =============================================================================
+
+export class GroqProvider implements LLMProvider {
+    readonly id = 'groq' as const;
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const client = getGroqClient();
+
+        let response: Groq.Chat.ChatCompletion;
+        try {
+            response = await client.chat.completions.create({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: request.jsonMode ? { type: "json_object" } : undefined
+            });
+        } catch (error) {
+            if (error instanceof Groq.RateLimitError) {
+                throw new RateLimitError(parseRetryAfter(error.headers?.['retry-after']));
+            }
+            throw error;
+        }
+
+        return {
+            content: response.choices[0]?.message?.content ?? '',
+            model: response.model || request.model,
+            provider: this.id,
+            usage: response.usage ? {
+                promptTokens: response.usage.prompt_tokens,
+                completionTokens: response.usage.completion_tokens
+            } : undefined
+        };
+    }
+}
+
+// =============================================================================
+// OPENAI-COMPATIBLE (llama.cpp / Ollama / vLLM)
+// =============================================================================
+
+interface OpenAIChatResponse {
+    model?: string;
+    choices?: { message?: { content?: string | null } }[];
+    usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai' as const;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(baseUrl: string, apiKey?: string) {
+        this.baseUrl = baseUrl.replace(/\/+$/, '');
+        this.apiKey = apiKey;
+    }
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+        const res = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: request.model,
+                messages: request.messages,
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                response_format: request.jsonMode ? { type: "json_object" } : undefined
+            })
+        });
+
+        if (res.status === 429) {
+            throw new RateLimitError(parseRetryAfter(res.headers.get('retry-after')));
+        }
+        if (!res.ok) {
+            throw new Error(`OpenAI-compatible endpoint returned ${res.status} ${res.statusText}`);
+        }
+
+        const data = await res.json() as OpenAIChatResponse;
+
+        return {
+            content: data.choices?.[0]?.message?.content ?? '',
+            model: data.model || request.model,
+            provider: this.id,
+            usage: data.usage ? {
+                promptTokens: data.usage.prompt_tokens,
+                completionTokens: data.usage.completion_tokens
+            } : undefined
+        };
+    }
+}
+
+// =============================================================================
+// MOCK (Deterministic, in-process)
+// =============================================================================
+
+/**
+ * Returns canned but input-dependent answers for each layer.
+ * The same messages always produce the same response, so runs are reproducible.
+ */
+export class MockProvider implements LLMProvider {
+    readonly id = 'mock' as const;
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+        const prompt = request.messages.map(m => m.content).join('\n');
+        // Only react to what the agent perceives, not to the system prompt wording
+        const stimulus = request.messages.filter(m => m.role !== 'system').map(m => m.content).join('\n');
+        const content = this.respond(request.layer, stimulus, fnv1a(prompt));
+
+        return {
+            content,
+            model: request.model,
+            provider: this.id,
+            usage: {
+                promptTokens: Math.ceil(prompt.length / 4),
+                completionTokens: Math.ceil(content.length / 4)
+            }
+        };
+    }
+
+    private respond(layer: BrainLayer, stimulus: string, seed: number): string {
+        const seesPlayer = stimulus.includes('PLAYER');
+
+        switch (layer) {
+            case 'LIMBIC':
+                return JSON.stringify(seesPlayer
+                    ? { reaction: 'WAVE', bark: 'Hey there!', confidence: 0.8 }
+                    : { reaction: 'OBSERVE', bark: 'Hmm...', confidence: 0.4 });
+
+            case 'NEOCORTEX':
+                // Player conversation: answer the last line
+                const said = stimulus.match(/\nPlayer: (.*)\n\nAnswer the player/);
+                if (said) {
+                    const follow = /follow/i.test(said[1]);
+                    return JSON.stringify({
+                        type: follow ? 'FOLLOW_ENTITY' : 'SOCIAL_INTERACT',
+                        params: { target: 'player-01' },
+                        speech: follow ? 'Sure, lead the way!' : `You said "${said[1]}". Tell me more!`,
+                        thought: 'The player is talking to me.'
+                    });
+                }
+                // Another agent spoke to us: answer back
+                const addressed = stimulus.match(/\nReply to (\S+) in "speech"/);
+                if (addressed) {
+                    return JSON.stringify({
+                        type: 'SOCIAL_INTERACT',
+                        params: { target: addressed[1] },
+                        speech: seed % 3 === 0 ? 'Good talk. Back to work!' : 'Interesting, go on.',
+                        thought: `${addressed[1]} is talking to me.`
+                    });
+                }
+                if (seesPlayer) {
+                    return JSON.stringify({
+                        type: 'FOLLOW_ENTITY',
+                        params: { target: 'player-01' },
+                        posture: 'WALK',
+                        thought: 'The player is nearby. I should stay close.'
+                    });
+                }
+                // Exercise the tool loop: look up a landmark, then walk to it
+                if (stimulus.includes('## Tools') && !stimulus.includes('## Tool Result')) {
+                    return JSON.stringify({ tool: 'nearest_anchor', args: {} });
+                }
+                const anchor = stimulus.match(/## Tool Result: nearest_anchor\n\{"id":"([^"]+)"/);
+                if (anchor) {
+                    return JSON.stringify({
+                        type: 'NAVIGATE_TO_ANCHOR',
+                        params: { target: anchor[1] },
+                        thought: `Nobody around. I'll head over to ${anchor[1]}.`
+                    });
+                }
+                return JSON.stringify({
+                    type: seed % 2 === 0 ? 'HOLD_POSITION' : 'IDLE',
+                    thought: 'Nothing around. Taking a moment to look around.'
+                });
+
+            case 'DREAMER': {
+                const lines = stimulus.split('\n').filter(l => l.startsWith('- '));
+                return `Recalled ${lines.length} moments, most recently: ${lines[0]?.slice(2) ?? 'nothing notable'}.`;
+            }
+        }
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+const providers: Partial<Record<ProviderId, LLMProvider>> = {};
+const layerOverrides: Partial<Record<BrainLayer, LLMProvider>> = {};
+
+let cassette: Cassette | null = null;
+let cassetteWrappers: WeakMap<LLMProvider, CassetteProvider> = new WeakMap();
+
+function createProvider(id: ProviderId): LLMProvider {
+    switch (id) {
+        case 'openai':
+            return new OpenAICompatibleProvider(
+                process.env.LLM_OPENAI_BASE_URL || 'http://localhost:8080/v1',
+                process.env.LLM_OPENAI_API_KEY
+            );
+        case 'mock':
+            return new MockProvider();
+        case 'groq':
+        default:
+            return new GroqProvider();
+    }
+}
+
+function parseProviderId(value: string | undefined): ProviderId | null {
+    if (value === 'groq' || value === 'openai' || value === 'mock') return value;
+    return null;
+}
+
+/**
+ * Wrap a provider in the cassette when LLM_CASSETTE is set.
+ * The cassette file is shared by every layer.
+ */
+function withCassette(provider: LLMProvider): LLMProvider {
+    const cassettePath = process.env.LLM_CASSETTE;
+    if (!cassettePath) return provider;
+
+    if (!cassette || cassette.filePath !== Cassette.resolvePath(cassettePath)) {
+        cassette = new Cassette(cassettePath);
+        cassetteWrappers = new WeakMap();
+    }
+
+    let wrapper = cassetteWrappers.get(provider);
+    if (!wrapper) {
+        const mode: CassetteMode = process.env.LLM_CASSETTE_MODE === 'record' ? 'record' : 'replay';
+        wrapper = new CassetteProvider(provider, cassette, mode);
+        cassetteWrappers.set(provider, wrapper);
+        console.log(`[LLM] ${provider.id} provider in cassette ${mode} mode (${cassette.filePath})`);
+    }
+    return wrapper;
+}
+
+/**
+ * Get the provider configured for a brain layer.
+ * Resolution order: programmatic override > LLM_<LAYER>_PROVIDER > LLM_PROVIDER > groq,
+ * then wrapped in the cassette if one is configured.
+ */
+export function getLayerProvider(layer: BrainLayer): LLMProvider {
+    const override = layerOverrides[layer];
+    if (override) return withCassette(override);
+
+    const id = parseProviderId(process.env[`LLM_${layer}_PROVIDER`])
+        ?? parseProviderId(process.env.LLM_PROVIDER)
+        ?? 'groq';
+
+    if (!providers[id]) {
+        providers[id] = createProvider(id);
+    }
+    return withCassette(providers[id]!);
+}
+
+/**
+ * Get the model configured for a brain layer.
+ * Falls back to the layer's built-in default when LLM_<LAYER>_MODEL is unset.
+ */
+export function getLayerModel(layer: BrainLayer, defaultModel: string): string {
+    return getLayerModelOverride(layer) ?? defaultModel;
+}
+
+/** The LLM_<LAYER>_MODEL override, if one is set */
+export function getLayerModelOverride(layer: BrainLayer): string | undefined {
+    return process.env[`LLM_${layer}_MODEL`] || undefined;
+}
+
+/**
+ * Force a provider for one layer (or all layers) at runtime.
+ * Used by scripts and tests to run fully offline. Pass null to clear.
+ */
+export function setLayerProvider(layer: BrainLayer | 'ALL', provider: LLMProvider | null): void {
+    const layers: BrainLayer[] = layer === 'ALL' ? ['LIMBIC', 'NEOCORTEX', 'DREAMER'] : [layer];
+    for (const l of layers) {
+        if (provider) layerOverrides[l] = provider;
+        else delete layerOverrides[l];
+    }
+}
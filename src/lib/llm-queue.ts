@@ -0,0 +1,239 @@
+/**
+ * LLM Request Queue
+ * Async priority queue in front of every LLM call, replacing
+ * "drop the request if the rate limiter is empty".
+ *
+ * - Priority: player-addressed SOCIAL > PERCEPTION > GOAL_CHECK > IDLE_THOUGHT > BACKGROUND
+ * - Coalescing: one pending request per (agent, key); a newer request replaces
+ *   the stale one (which resolves to null) and keeps the higher priority
+ * - Staleness: requests waiting longer than their maxAge are cancelled
+ * - Fairness: within a priority, the agent served least recently goes first
+ * - Back-pressure: a RateLimitError (429 / Retry-After) pauses the whole queue
+ *   and puts the request back at the front
+ *
+ * Tokens come from the GlobalRateLimiter. Client-safe (no server imports).
+ */
+
+import { GlobalRateLimiter } from '@/lib/global-rate-limiter';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type RequestPriority = 'SOCIAL' | 'PERCEPTION' | 'GOAL_CHECK' | 'IDLE_THOUGHT' | 'BACKGROUND';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+    SOCIAL: 4,
+    PERCEPTION: 3,
+    GOAL_CHECK: 2,
+    IDLE_THOUGHT: 1,
+    BACKGROUND: 0
+};
+
+export interface QueueRequest<T> {
+    agentId: string;
+    priority: RequestPriority;
+    /** Requests with the same agent + key coalesce (e.g. 'think', 'reflex') */
+    key: string;
+    run: () => Promise<T>;
+    /** Cancel if still waiting after this long (default 15s) */
+    maxAgeMs?: number;
+}
+
+export interface QueueStats {
+    pending: number;
+    inFlight: number;
+    pausedForMs: number;
+}
+
+interface PendingRequest {
+    agentId: string;
+    priority: RequestPriority;
+    key: string;
+    enqueuedAt: number;
+    maxAgeMs: number;
+    run: () => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (error: unknown) => void;
+}
+
+/** Provider said "slow down": carries how long to wait */
+export class RateLimitError extends Error {
+    constructor(public readonly retryAfterMs: number) {
+        super(`Rate limited, retry after ${retryAfterMs}ms`);
+        this.name = 'RateLimitError';
+    }
+}
+
+/** Parse a Retry-After header (seconds or HTTP date) into milliseconds */
+export function parseRetryAfter(value: string | null | undefined, fallbackMs: number = 5000): number {
+    if (!value) return fallbackMs;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? fallbackMs : Math.max(0, date - Date.now());
+}
+
+// =============================================================================
+// QUEUE
+// =============================================================================
+
+export class LLMRequestQueue {
+    private static instance: LLMRequestQueue;
+
+    private pending: PendingRequest[] = [];
+    private inFlight: number = 0;
+    private pausedUntil: number = 0;
+    private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+    private lastServed: Map<string, number> = new Map();
+    private limiter: GlobalRateLimiter;
+
+    private readonly MAX_IN_FLIGHT = 2;
+    private readonly DEFAULT_MAX_AGE_MS = 15000;
+
+    private constructor() {
+        this.limiter = GlobalRateLimiter.getInstance();
+    }
+
+    static getInstance(): LLMRequestQueue {
+        if (!LLMRequestQueue.instance) {
+            LLMRequestQueue.instance = new LLMRequestQueue();
+        }
+        return LLMRequestQueue.instance;
+    }
+
+    /**
+     * Queue an LLM call. Resolves with its result, or null if it was
+     * superseded by a newer request or went stale before being served.
+     */
+    enqueue<T>(request: QueueRequest<T>): Promise<T | null> {
+        return new Promise<T | null>((resolve, reject) => {
+            let priority = request.priority;
+
+            const existing = this.pending.findIndex(p => p.agentId === request.agentId && p.key === request.key);
+            if (existing !== -1) {
+                const stale = this.pending.splice(existing, 1)[0];
+                if (PRIORITY_RANK[stale.priority] > PRIORITY_RANK[priority]) priority = stale.priority;
+                stale.resolve(null);
+                console.log(`[LLMQueue] Coalesced ${request.agentId}/${request.key}`);
+            }
+
+            this.pending.push({
+                agentId: request.agentId,
+                priority,
+                key: request.key,
+                enqueuedAt: Date.now(),
+                maxAgeMs: request.maxAgeMs ?? this.DEFAULT_MAX_AGE_MS,
+                run: request.run,
+                resolve: resolve as (value: unknown) => void,
+                reject
+            });
+            this.pump();
+        });
+    }
+
+    /** Drop an agent's waiting requests (all, or one key) */
+    cancel(agentId: string, key?: string): void {
+        this.pending = this.pending.filter(p => {
+            if (p.agentId !== agentId || (key && p.key !== key)) return true;
+            p.resolve(null);
+            return false;
+        });
+    }
+
+    /** Stop dispatching for a while (provider returned 429 / Retry-After) */
+    pause(ms: number): void {
+        const until = Date.now() + ms;
+        if (until <= this.pausedUntil) return;
+        this.pausedUntil = until;
+        console.warn(`[LLMQueue] Paused for ${Math.round(ms)}ms (${this.pending.length} waiting)`);
+        this.scheduleWake(ms);
+    }
+
+    getStats(): QueueStats {
+        return {
+            pending: this.pending.length,
+            inFlight: this.inFlight,
+            pausedForMs: Math.max(0, this.pausedUntil - Date.now())
+        };
+    }
+
+    private pump(): void {
+        while (this.pending.length > 0 && this.inFlight < this.MAX_IN_FLIGHT) {
+            const now = Date.now();
+
+            if (now < this.pausedUntil) {
+                this.scheduleWake(this.pausedUntil - now);
+                return;
+            }
+
+            this.dropStale(now);
+            if (this.pending.length === 0) return;
+
+            if (!this.limiter.tryConsume()) {
+                this.scheduleWake(this.limiter.getWaitTimeMs());
+                return;
+            }
+
+            this.dispatch(this.takeNext());
+        }
+    }
+
+    /** Highest priority first; ties go to the agent served least recently, then FIFO */
+    private takeNext(): PendingRequest {
+        let bestIndex = 0;
+        for (let i = 1; i < this.pending.length; i++) {
+            const a = this.pending[i];
+            const b = this.pending[bestIndex];
+            const rankDiff = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+            if (rankDiff > 0) {
+                bestIndex = i;
+            } else if (rankDiff === 0) {
+                const servedA = this.lastServed.get(a.agentId) ?? 0;
+                const servedB = this.lastServed.get(b.agentId) ?? 0;
+                if (servedA < servedB || (servedA === servedB && a.enqueuedAt < b.enqueuedAt)) bestIndex = i;
+            }
+        }
+        return this.pending.splice(bestIndex, 1)[0];
+    }
+
+    private dispatch(request: PendingRequest): void {
+        this.inFlight++;
+        this.lastServed.set(request.agentId, Date.now());
+
+        request.run()
+            .then(request.resolve)
+            .catch(error => {
+                if (error instanceof RateLimitError) {
+                    this.pause(error.retryAfterMs);
+                    // Retry first, unless a newer request for the same job arrived meanwhile
+                    const superseded = this.pending.some(p => p.agentId === request.agentId && p.key === request.key);
+                    if (superseded) request.resolve(null);
+                    else this.pending.unshift(request);
+                } else {
+                    request.reject(error);
+                }
+            })
+            .finally(() => {
+                this.inFlight--;
+                this.pump();
+            });
+    }
+
+    private dropStale(now: number): void {
+        this.pending = this.pending.filter(p => {
+            if (now - p.enqueuedAt <= p.maxAgeMs) return true;
+            console.log(`[LLMQueue] Dropped stale ${p.agentId}/${p.key} (${p.priority})`);
+            p.resolve(null);
+            return false;
+        });
+    }
+
+    private scheduleWake(ms: number): void {
+        if (this.wakeTimer) return;
+        this.wakeTimer = setTimeout(() => {
+            this.wakeTimer = null;
+            this.pump();
+        }, Math.max(ms, 50));
+    }
+}
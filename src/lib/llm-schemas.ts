@@ -0,0 +1,245 @@
+/**
+ * LLM Output Contracts
+ * Runtime validation for everything the brain layers return, plus
+ * per-model bookkeeping of how well each model follows the contract.
+ *
+ * Validators never throw: they return the typed value or a list of
+ * human-readable errors that can be fed back to the model for repair.
+ */
+
+import type { LimbicResponse, NeocortexResponse } from '@/lib/agent-core';
+import { checkCapabilityParams, getCapabilitySpec, listCapabilities, POSTURES, type CapabilityCommand, type CapabilityManifest, type CapabilityType, type Posture } from '@/lib/capabilities';
+import { getWorldTool, WORLD_TOOLS, type WorldToolCall } from '@/lib/world-tools';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ValidationResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; errors: string[] };
+
+export type Validator<T> = (input: unknown) => ValidationResult<T>;
+
+/** One Neocortex turn: either a world query or the final decision */
+export type NeocortexTurn =
+    | { kind: 'tool'; call: WorldToolCall }
+    | { kind: 'decision'; decision: NeocortexResponse };
+
+/** Thrown when a model still breaks the contract after its repair attempt */
+export class SchemaValidationError extends Error {
+    constructor(public readonly errors: string[]) {
+        super(`LLM output failed validation: ${errors.join('; ')}`);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+const LIMBIC_REACTIONS: LimbicResponse['reaction'][] = ['WAVE', 'IGNORE', 'APPROACH', 'FLEE', 'OBSERVE'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkOptionalString(obj: Record<string, unknown>, key: string, errors: string[]): void {
+    if (obj[key] !== undefined && typeof obj[key] !== 'string') {
+        errors.push(`"${key}" must be a string`);
+    }
+}
+
+/**
+ * Strip markdown fences and parse JSON, then validate.
+ * Parse failures are reported as validation errors.
+ */
+export function parseJsonWith<T>(text: string, validator: Validator<T>): ValidationResult<T> {
+    const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(clean);
+    } catch {
+        return { ok: false, errors: ["Output is not valid JSON"] };
+    }
+    return validator(parsed);
+}
+
+// =============================================================================
+// VALIDATORS
+// =============================================================================
+
+export const validateLimbicResponse: Validator<LimbicResponse> = (input) => {
+    if (!isRecord(input)) return { ok: false, errors: ["Expected a JSON object"] };
+    const errors: string[] = [];
+
+    if (!LIMBIC_REACTIONS.includes(input.reaction as LimbicResponse['reaction'])) {
+        errors.push(`"reaction" must be one of ${LIMBIC_REACTIONS.join('|')}`);
+    }
+    if (typeof input.confidence !== 'number' || input.confidence < 0 || input.confidence > 1) {
+        errors.push(`"confidence" must be a number between 0.0 and 1.0`);
+    }
+    checkOptionalString(input, 'bark', errors);
+
+    if (errors.length > 0) return { ok: false, errors };
+    return {
+        ok: true,
+        value: {
+            reaction: input.reaction as LimbicResponse['reaction'],
+            confidence: input.confidence as number,
+            bark: input.bark as string | undefined
+        }
+    };
+};
+
+/** Checked against a session's catalog (see learnCapabilities()) when given, else the registry */
+export function validateCapabilityCommand(input: unknown, catalog?: CapabilityManifest): ValidationResult<CapabilityCommand> {
+    if (!isRecord(input)) return { ok: false, errors: ["Expected a JSON object"] };
+    const errors: string[] = [];
+
+    const type = input.type as CapabilityType;
+    const spec = typeof type === 'string' ? getCapabilitySpec(type, catalog) : undefined;
+    if (!spec) {
+        errors.push(`"type" must be one of ${(catalog ? Object.keys(catalog) : listCapabilities()).join('|')}`);
+    }
+
+    if (input.params !== undefined && !isRecord(input.params)) {
+        errors.push(`"params" must be an object`);
+    }
+    const params = isRecord(input.params) ? input.params : {};
+
+    if (spec) errors.push(...checkCapabilityParams(type, params, catalog));
+
+    if (input.posture !== undefined && !POSTURES.includes(input.posture as Posture)) {
+        errors.push(`"posture" must be one of ${POSTURES.join('|')}`);
+    }
+
+    if (errors.length > 0) return { ok: false, errors };
+    return {
+        ok: true,
+        value: {
+            type,
+            params,
+            posture: input.posture as Posture | undefined
+        }
+    };
+}
+
+export function validateNeocortexResponse(input: unknown, catalog?: CapabilityManifest): ValidationResult<NeocortexResponse> {
+    const command = validateCapabilityCommand(input, catalog);
+    const errors = command.ok ? [] : [...command.errors];
+
+    if (!isRecord(input)) return { ok: false, errors };
+
+    if (typeof input.thought !== 'string' || input.thought.trim().length === 0) {
+        errors.push(`"thought" is required and must be a non-empty string`);
+    }
+    checkOptionalString(input, 'speech', errors);
+    checkOptionalString(input, 'memoryToStore', errors);
+    checkOptionalString(input, 'model', errors);
+
+    if (!command.ok || errors.length > 0) return { ok: false, errors };
+    return {
+        ok: true,
+        value: {
+            ...command.value,
+            thought: input.thought as string,
+            speech: input.speech as string | undefined,
+            memoryToStore: input.memoryToStore as string | undefined,
+            model: input.model as string | undefined
+        }
+    };
+}
+
+export const validateToolCall: Validator<WorldToolCall> = (input) => {
+    if (!isRecord(input)) return { ok: false, errors: ["Expected a JSON object"] };
+    const errors: string[] = [];
+
+    const tool = typeof input.tool === 'string' ? getWorldTool(input.tool) : undefined;
+    if (!tool) {
+        errors.push(`"tool" must be one of ${WORLD_TOOLS.map(t => t.name).join('|')}`);
+    }
+
+    if (input.args !== undefined && !isRecord(input.args)) {
+        errors.push(`"args" must be an object`);
+    }
+    const args = isRecord(input.args) ? input.args : {};
+
+    if (tool) {
+        for (const [name, p] of Object.entries(tool.params)) {
+            const value = args[name];
+            if (value === undefined || value === null) {
+                if (p.required) errors.push(`${tool.name} requires arg "${name}" (${p.type})`);
+            } else if (typeof value !== p.type) {
+                errors.push(`${tool.name} arg "${name}" must be a ${p.type}`);
+            }
+        }
+    }
+
+    if (errors.length > 0) return { ok: false, errors };
+    return { ok: true, value: { tool: input.tool as string, args } };
+};
+
+/**
+ * Accepts a tool call (while the tool budget lasts) or a final decision
+ * (a capability from the session's catalog, if given).
+ */
+export function validateNeocortexTurn(allowTools: boolean, catalog?: CapabilityManifest): Validator<NeocortexTurn> {
+    return (input) => {
+        if (isRecord(input) && 'tool' in input) {
+            if (!allowTools) {
+                return { ok: false, errors: ["Tool budget exhausted: output your final decision JSON now"] };
+            }
+            const call = validateToolCall(input);
+            return call.ok ? { ok: true, value: { kind: 'tool', call: call.value } } : call;
+        }
+
+        const decision = validateNeocortexResponse(input, catalog);
+        return decision.ok ? { ok: true, value: { kind: 'decision', decision: decision.value } } : decision;
+    };
+}
+
+// =============================================================================
+// CONTRACT STATS (Per-Model Adherence)
+// =============================================================================
+
+export interface ContractStats {
+    /** Responses checked on first attempt */
+    calls: number;
+    /** Valid on first attempt */
+    valid: number;
+    /** Invalid at first, fixed by the repair prompt */
+    repaired: number;
+    /** Still invalid after repair (caller fell back) */
+    failed: number;
+    lastErrors: string[];
+}
+
+export type ContractOutcome = 'valid' | 'repaired' | 'failed';
+
+const contractStats: Map<string, ContractStats> = new Map();
+
+/** Record how a model did against the output contract */
+export function recordContractOutcome(model: string, outcome: ContractOutcome, errors: string[] = []): void {
+    let stats = contractStats.get(model);
+    if (!stats) {
+        stats = { calls: 0, valid: 0, repaired: 0, failed: 0, lastErrors: [] };
+        contractStats.set(model, stats);
+    }
+    stats.calls++;
+    stats[outcome]++;
+    if (errors.length > 0) stats.lastErrors = errors;
+
+    if (outcome !== 'valid') {
+        console.warn(`[Contract] ${model} ${outcome.toUpperCase()} (${stats.valid}/${stats.calls} valid first try):`, errors);
+    }
+}
+
+/** Snapshot of adherence per model, for comparing entries in GROQ_MODELS */
+export function getContractStats(): Record<string, ContractStats> {
+    const report: Record<string, ContractStats> = {};
+    for (const [model, stats] of contractStats) {
+        report[model] = { ...stats, lastErrors: [...stats.lastErrors] };
+    }
+    return report;
+}
@@ -0,0 +1,134 @@
+/**
+ * Model Rate Limiter (Server Side)
+ * Mirrors the provider's per-model limits so we stop *before* a 429:
+ * four token buckets per model (requests/min, tokens/min, requests/day,
+ * tokens/day), configured from MODEL_LIMITS in groq.ts.
+ *
+ * Token costs are estimated up front (prompt + max completion) and settled
+ * against the real usage once the response arrives.
+ * Models without an entry in MODEL_LIMITS are not limited.
+ */
+
+import { MODEL_LIMITS, getModelLimits } from '@/lib/groq';
+import { RateLimiter } from '@/lib/rateLimiter';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Remaining capacity of one model */
+export interface ModelCapacity {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+    requestsPerDay: number;
+    tokensPerDay: number;
+}
+
+interface ModelBuckets {
+    rpm: RateLimiter;
+    tpm: RateLimiter;
+    rpd: RateLimiter;
+    tpd: RateLimiter;
+}
+
+// =============================================================================
+// LIMITER
+// =============================================================================
+
+export class ModelRateLimiter {
+    private static instance: ModelRateLimiter;
+
+    private buckets: Map<string, ModelBuckets | null> = new Map();
+
+    private constructor() { }
+
+    static getInstance(): ModelRateLimiter {
+        if (!ModelRateLimiter.instance) {
+            ModelRateLimiter.instance = new ModelRateLimiter();
+        }
+        return ModelRateLimiter.instance;
+    }
+
+    /** Whether one request of ~estimatedTokens fits right now */
+    hasHeadroom(model: string, estimatedTokens: number): boolean {
+        return this.getWaitTimeMs(model, estimatedTokens) === 0;
+    }
+
+    /**
+     * Reserve one request and its estimated tokens in every bucket.
+     * All-or-nothing: returns false without consuming if any bucket is short.
+     */
+    tryAcquire(model: string, estimatedTokens: number): boolean {
+        const b = this.getBuckets(model);
+        if (!b) return true;
+        if (!this.hasHeadroom(model, estimatedTokens)) return false;
+
+        b.rpm.tryConsume(1);
+        b.rpd.tryConsume(1);
+        b.tpm.tryConsume(estimatedTokens);
+        b.tpd.tryConsume(estimatedTokens);
+        return true;
+    }
+
+    /** Correct the token buckets once the real usage is known */
+    settle(model: string, estimatedTokens: number, actualTokens: number): void {
+        const b = this.getBuckets(model);
+        if (!b) return;
+        const delta = actualTokens - estimatedTokens;
+        b.tpm.adjust(delta);
+        b.tpd.adjust(delta);
+    }
+
+    /** How long until a request of ~estimatedTokens would fit (0 = now) */
+    getWaitTimeMs(model: string, estimatedTokens: number): number {
+        const b = this.getBuckets(model);
+        if (!b) return 0;
+        return Math.max(
+            b.rpm.getWaitTimeMs(1),
+            b.rpd.getWaitTimeMs(1),
+            b.tpm.getWaitTimeMs(estimatedTokens),
+            b.tpd.getWaitTimeMs(estimatedTokens)
+        );
+    }
+
+    /** Remaining capacity, or null for unlimited models */
+    getCapacity(model: string): ModelCapacity | null {
+        const b = this.getBuckets(model);
+        if (!b) return null;
+        // Settled token buckets can run into debt; report that as "none left"
+        return {
+            requestsPerMinute: Math.max(0, b.rpm.getTokensRemaining()),
+            tokensPerMinute: Math.max(0, b.tpm.getTokensRemaining()),
+            requestsPerDay: Math.max(0, b.rpd.getTokensRemaining()),
+            tokensPerDay: Math.max(0, b.tpd.getTokensRemaining())
+        };
+    }
+
+    /** Capacity of every model in MODEL_LIMITS */
+    getAllCapacity(): Record<string, ModelCapacity> {
+        const report: Record<string, ModelCapacity> = {};
+        for (const model of Object.keys(MODEL_LIMITS)) {
+            const capacity = this.getCapacity(model);
+            if (capacity) report[model] = capacity;
+        }
+        return report;
+    }
+
+    /** First model in preference order that can take the request now */
+    pickModel(candidates: string[], estimatedTokens: number): string | null {
+        return candidates.find(model => this.hasHeadroom(model, estimatedTokens)) ?? null;
+    }
+
+    private getBuckets(model: string): ModelBuckets | null {
+        if (!this.buckets.has(model)) {
+            const limits = getModelLimits(model);
+            this.buckets.set(model, limits ? {
+                rpm: new RateLimiter(limits.rpm, 60),
+                tpm: new RateLimiter(limits.tpm, 60),
+                rpd: new RateLimiter(limits.rpd, 24 * 60 * 60),
+                tpd: new RateLimiter(limits.tpd, 24 * 60 * 60)
+            } : null);
+        }
+        return this.buckets.get(model)!;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * Model Router (Server Side)
+ * Decides which model answers a brain-layer call and where to go when it can't.
+ *
+ * - Fallback chains per layer, best model first
+ *   (override with LLM_<LAYER>_FALLBACK=model,model,...)
+ * - Trigger: idle musing starts one step down the chain; the flagship
+ *   becomes its last resort instead of its first choice
+ * - Context size: large prompts try the models with the most tokens-per-minute first
+ * - Quota: models without headroom in the ModelRateLimiter move to the back
+ *
+ * The caller walks the route (see complete() in agent-core.ts); when every
+ * model has failed the Neocortex falls back to its rule brain.
+ */
+
+import { GROQ_MODELS, getModelLimits } from '@/lib/groq';
+import { ModelRateLimiter } from '@/lib/model-rate-limiter';
+import type { BrainLayer } from '@/lib/llm-provider';
+import type { TriggerType } from '@/lib/context-mixer';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface RouteRequest {
+    layer: BrainLayer;
+    trigger?: TriggerType;
+    /** Prompt + max completion, used for context-size routing and quota checks */
+    estimatedTokens: number;
+    /** Try this model first (env override, or a repair turn sticking to its model) */
+    preferred?: string;
+}
+
+/** A model in the chain didn't answer in time */
+export class ModelTimeoutError extends Error {
+    constructor(public readonly model: string, timeoutMs: number) {
+        super(`${model} did not answer within ${timeoutMs}ms`);
+        this.name = 'ModelTimeoutError';
+    }
+}
+
+// =============================================================================
+// CONFIGURATION
+// =============================================================================
+
+export const FALLBACK_CHAINS: Record<BrainLayer, string[]> = {
+    NEOCORTEX: [
+        GROQ_MODELS.LLAMA_4_MAVERICK,
+        GROQ_MODELS.LLAMA_4_SCOUT,
+        GROQ_MODELS.LLAMA_3_3_70B,
+        GROQ_MODELS.LLAMA_3_1_8B
+    ],
+    LIMBIC: [GROQ_MODELS.LLAMA_3_1_8B, GROQ_MODELS.LLAMA_4_SCOUT],
+    DREAMER: [GROQ_MODELS.LLAMA_3_1_8B, GROQ_MODELS.LLAMA_4_SCOUT]
+};
+
+/** Recorded as the answering "model" when no LLM did */
+export const RULE_BRAIN = 'rule-brain';
+
+/** Triggers that don't deserve the flagship model */
+const CHEAP_TRIGGERS: TriggerType[] = ['IDLE_THOUGHT'];
+
+/** Above this many estimated tokens, prefer models with a larger TPM limit */
+const LARGE_CONTEXT_TOKENS = 2000;
+
+// =============================================================================
+// ROUTING
+// =============================================================================
+
+/** The layer's fallback chain, from LLM_<LAYER>_FALLBACK or the defaults */
+export function getFallbackChain(layer: BrainLayer): string[] {
+    const fromEnv = process.env[`LLM_${layer}_FALLBACK`]
+        ?.split(',')
+        .map(model => model.trim())
+        .filter(Boolean);
+    return fromEnv && fromEnv.length > 0 ? fromEnv : [...FALLBACK_CHAINS[layer]];
+}
+
+/**
+ * Ordered list of models to try for one call.
+ * Every chain model appears once; models currently out of quota go last,
+ * so the caller still reaches them (and gets a RateLimitError) if nothing else answers.
+ */
+export function routeModels(request: RouteRequest): string[] {
+    let route = getFallbackChain(request.layer);
+
+    if (request.trigger && CHEAP_TRIGGERS.includes(request.trigger) && route.length > 1) {
+        route = [...route.slice(1), route[0]];
+    }
+
+    if (request.estimatedTokens > LARGE_CONTEXT_TOKENS) {
+        const tpm = (model: string) => getModelLimits(model)?.tpm ?? Infinity;
+        route = [...route].sort((a, b) => tpm(b) - tpm(a));
+    }
+
+    if (request.preferred) {
+        route = [request.preferred, ...route.filter(model => model !== request.preferred)];
+    }
+
+    const limiter = ModelRateLimiter.getInstance();
+    const ready = route.filter(model => limiter.hasHeadroom(model, request.estimatedTokens));
+    const exhausted = route.filter(model => !ready.includes(model));
+    return [...ready, ...exhausted];
+}
+
+/** Reject with ModelTimeoutError if the call takes longer than timeoutMs */
+export function withTimeout<T>(promise: Promise<T>, model: string, timeoutMs: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout>;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ModelTimeoutError(model, timeoutMs)), timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
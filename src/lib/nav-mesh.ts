@@ -0,0 +1,424 @@
+/**
+ * Navigation Mesh
+ *
+ * Walkable ground as a grid of cells, built from the scene's collidable meshes
+ * (terrain, bridges, hub floors): a cell is walkable where the highest
+ * upward-facing surface over it lies above the water and no obstacle stands
+ * on it. A* over the cells finds paths, smoothed into straight runs for
+ * FollowPathBehavior.
+ *
+ * A grid rather than YUKA.NavMesh: Yuka builds its region graph by matching
+ * every polygon edge against every other, which doesn't scale to a 500m terrain.
+ */
+
+import * as THREE from 'three';
+import { fnv1aHex } from '@/lib/hash';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Anything standing on the ground (trees, rocks, furniture) */
+export interface NavObstacle {
+    position: { x: number; z: number };
+    radius: number;
+}
+
+export interface NavPath {
+    /** From the start position to the goal position, corners in between */
+    points: THREE.Vector3[];
+    /** m along the ground plane */
+    length: number;
+}
+
+/** Serializable walkability, sent from client to server with the world snapshot */
+export interface NavMeshSnapshot {
+    originX: number;
+    originZ: number;
+    cellSize: number;
+    cols: number;
+    rows: number;
+    /** Base64 bitset, one bit per cell (row-major) */
+    walkable: string;
+    /** Identifies this grid, so the server can keep it and the client send it only when it changes */
+    hash: string;
+}
+
+const CELL_SIZE = 2.0;        // m
+const WATER_LEVEL = -0.5;     // Surfaces below this are under water (agents swim from -0.8)
+const MIN_NORMAL_Y = 0.5;     // Steeper than 60 degrees isn't ground
+const AGENT_RADIUS = 1.0;     // m of clearance kept from obstacles
+const SNAP_RADIUS = 8;        // Cells searched for walkable ground around an off-mesh start / goal
+const DIAGONAL = Math.SQRT2;
+
+// =============================================================================
+// NAV MESH
+// =============================================================================
+
+export class NavMesh {
+    public readonly originX: number;
+    public readonly originZ: number;
+    public readonly cellSize: number;
+    public readonly cols: number;
+    public readonly rows: number;
+
+    /** Surface height per cell; -Infinity where there's none (or unknown, server side) */
+    private heights: Float32Array;
+    private walkable: Uint8Array;
+    /** Connected area per walkable cell (-1 = blocked); different areas can't reach each other */
+    private areas: Int32Array;
+
+    private constructor(originX: number, originZ: number, cols: number, rows: number, cellSize: number) {
+        this.originX = originX;
+        this.originZ = originZ;
+        this.cols = cols;
+        this.rows = rows;
+        this.cellSize = cellSize;
+        this.heights = new Float32Array(cols * rows).fill(-Infinity);
+        this.walkable = new Uint8Array(cols * rows);
+        this.areas = new Int32Array(cols * rows).fill(-1);
+    }
+
+    /** Sample the meshes' walkable surfaces onto a grid covering all of them */
+    static fromMeshes(meshes: THREE.Object3D[], obstacles: NavObstacle[], cellSize: number = CELL_SIZE): NavMesh {
+        const bounds = new THREE.Box3();
+        meshes.forEach(mesh => {
+            mesh.updateWorldMatrix(true, true);
+            bounds.expandByObject(mesh);
+        });
+        if (bounds.isEmpty()) throw new Error('NavMesh: nothing to build from');
+
+        const cols = Math.max(1, Math.ceil((bounds.max.x - bounds.min.x) / cellSize));
+        const rows = Math.max(1, Math.ceil((bounds.max.z - bounds.min.z) / cellSize));
+        const navMesh = new NavMesh(bounds.min.x, bounds.min.z, cols, rows, cellSize);
+
+        meshes.forEach(root => root.traverse(object => {
+            if (object instanceof THREE.Mesh) navMesh.rasterize(object);
+        }));
+        for (let i = 0; i < navMesh.heights.length; i++) {
+            navMesh.walkable[i] = navMesh.heights[i] >= WATER_LEVEL ? 1 : 0;
+        }
+        obstacles.forEach(o => navMesh.block(o.position.x, o.position.z, o.radius + AGENT_RADIUS));
+        navMesh.labelAreas();
+        return navMesh;
+    }
+
+    /** Mirror a client's walkability (server side; heights are unknown there) */
+    static fromSnapshot(snapshot: NavMeshSnapshot): NavMesh {
+        const navMesh = new NavMesh(snapshot.originX, snapshot.originZ, snapshot.cols, snapshot.rows, snapshot.cellSize);
+        const bytes = atob(snapshot.walkable);
+        for (let i = 0; i < navMesh.walkable.length; i++) {
+            navMesh.walkable[i] = (bytes.charCodeAt(i >> 3) >> (i & 7)) & 1;
+        }
+        navMesh.labelAreas();
+        return navMesh;
+    }
+
+    exportSnapshot(): NavMeshSnapshot {
+        const bytes = new Uint8Array(Math.ceil(this.walkable.length / 8));
+        this.walkable.forEach((w, i) => { if (w) bytes[i >> 3] |= 1 << (i & 7); });
+        let binary = '';
+        bytes.forEach(b => { binary += String.fromCharCode(b); });
+        const walkable = btoa(binary);
+        return {
+            originX: this.originX, originZ: this.originZ, cellSize: this.cellSize,
+            cols: this.cols, rows: this.rows, walkable,
+            hash: fnv1aHex(`${this.originX},${this.originZ},${this.cellSize},${this.cols},${this.rows}:${walkable}`)
+        };
+    }
+
+    public get walkableCount(): number {
+        return this.walkable.reduce((n, w) => n + w, 0);
+    }
+
+    public isWalkable(position: { x: number; z: number }): boolean {
+        const cell = this.cellAt(position.x, position.z);
+        return cell >= 0 && this.walkable[cell] === 1;
+    }
+
+    /**
+     * Shortest walkable path (A*, 8-way without cutting corners), smoothed to
+     * the corners that matter. Start and goal may be just off the mesh (in an
+     * obstacle's clearance, on a shore); null when there's no way there.
+     */
+    public findPath(from: { x: number; y: number; z: number }, to: { x: number; y: number; z: number }): NavPath | null {
+        const start = this.nearestWalkable(from.x, from.z);
+        const goal = this.nearestWalkable(to.x, to.z);
+        if (start < 0 || goal < 0 || this.areas[start] !== this.areas[goal]) return null;
+
+        const cells = this.search(start, goal);
+        if (!cells) return null;
+
+        const points = [new THREE.Vector3(from.x, from.y, from.z)];
+        this.smooth(cells).slice(1, -1).forEach(cell => points.push(this.cellCenter(cell, to.y)));
+        points.push(new THREE.Vector3(to.x, to.y, to.z));
+
+        let length = 0;
+        for (let i = 1; i < points.length; i++) {
+            length += Math.hypot(points[i].x - points[i - 1].x, points[i].z - points[i - 1].z);
+        }
+        return { points, length };
+    }
+
+    // --- BUILDING ---
+
+    /** Raise cells to the upward-facing triangles over their centers */
+    private rasterize(mesh: THREE.Mesh) {
+        const geometry = mesh.geometry as THREE.BufferGeometry;
+        const position = geometry.getAttribute('position');
+        if (!position) return;
+        const index = geometry.getIndex();
+        const count = index ? index.count : position.count;
+
+        const a = new THREE.Vector3(), b = new THREE.Vector3(), c = new THREE.Vector3();
+        const normal = new THREE.Vector3(), ab = new THREE.Vector3(), ac = new THREE.Vector3();
+        const vertex = (target: THREE.Vector3, i: number) =>
+            target.fromBufferAttribute(position, index ? index.getX(i) : i).applyMatrix4(mesh.matrixWorld);
+
+        for (let i = 0; i + 2 < count; i += 3) {
+            vertex(a, i);
+            vertex(b, i + 1);
+            vertex(c, i + 2);
+            normal.crossVectors(ab.subVectors(b, a), ac.subVectors(c, a)).normalize();
+            if (normal.y < MIN_NORMAL_Y) continue;
+
+            const minCol = Math.max(0, Math.floor((Math.min(a.x, b.x, c.x) - this.originX) / this.cellSize));
+            const maxCol = Math.min(this.cols - 1, Math.floor((Math.max(a.x, b.x, c.x) - this.originX) / this.cellSize));
+            const minRow = Math.max(0, Math.floor((Math.min(a.z, b.z, c.z) - this.originZ) / this.cellSize));
+            const maxRow = Math.min(this.rows - 1, Math.floor((Math.max(a.z, b.z, c.z) - this.originZ) / this.cellSize));
+
+            // Barycentric test / height in the ground plane
+            const det = (b.z - c.z) * (a.x - c.x) + (c.x - b.x) * (a.z - c.z);
+            if (Math.abs(det) < 1e-9) continue;
+
+            for (let row = minRow; row <= maxRow; row++) {
+                const z = this.originZ + (row + 0.5) * this.cellSize;
+                for (let col = minCol; col <= maxCol; col++) {
+                    const x = this.originX + (col + 0.5) * this.cellSize;
+                    const u = ((b.z - c.z) * (x - c.x) + (c.x - b.x) * (z - c.z)) / det;
+                    const v = ((c.z - a.z) * (x - c.x) + (a.x - c.x) * (z - c.z)) / det;
+                    const w = 1 - u - v;
+                    if (u < -1e-6 || v < -1e-6 || w < -1e-6) continue;
+
+                    const cell = row * this.cols + col;
+                    this.heights[cell] = Math.max(this.heights[cell], u * a.y + v * b.y + w * c.y);
+                }
+            }
+        }
+    }
+
+    private block(x: number, z: number, radius: number) {
+        const minCol = Math.max(0, Math.floor((x - radius - this.originX) / this.cellSize));
+        const maxCol = Math.min(this.cols - 1, Math.floor((x + radius - this.originX) / this.cellSize));
+        const minRow = Math.max(0, Math.floor((z - radius - this.originZ) / this.cellSize));
+        const maxRow = Math.min(this.rows - 1, Math.floor((z + radius - this.originZ) / this.cellSize));
+
+        for (let row = minRow; row <= maxRow; row++) {
+            for (let col = minCol; col <= maxCol; col++) {
+                const dx = this.originX + (col + 0.5) * this.cellSize - x;
+                const dz = this.originZ + (row + 0.5) * this.cellSize - z;
+                if (dx * dx + dz * dz <= radius * radius) this.walkable[row * this.cols + col] = 0;
+            }
+        }
+    }
+
+    /** Flood-fill connected areas, so unreachable goals fail without a search */
+    private labelAreas() {
+        this.areas.fill(-1);
+        const stack: number[] = [];
+        let area = 0;
+
+        for (let seed = 0; seed < this.walkable.length; seed++) {
+            if (!this.walkable[seed] || this.areas[seed] >= 0) continue;
+            this.areas[seed] = area;
+            stack.push(seed);
+            while (stack.length > 0) {
+                const cell = stack.pop()!;
+                const col = cell % this.cols;
+                const neighbours = [
+                    col > 0 ? cell - 1 : -1,
+                    col < this.cols - 1 ? cell + 1 : -1,
+                    cell - this.cols,
+                    cell + this.cols
+                ];
+                for (const next of neighbours) {
+                    if (next < 0 || next >= this.walkable.length || !this.walkable[next] || this.areas[next] >= 0) continue;
+                    this.areas[next] = area;
+                    stack.push(next);
+                }
+            }
+            area++;
+        }
+    }
+
+    // --- QUERIES ---
+
+    private cellAt(x: number, z: number): number {
+        const col = Math.floor((x - this.originX) / this.cellSize);
+        const row = Math.floor((z - this.originZ) / this.cellSize);
+        if (col < 0 || row < 0 || col >= this.cols || row >= this.rows) return -1;
+        return row * this.cols + col;
+    }
+
+    private cellCenter(cell: number, fallbackY: number): THREE.Vector3 {
+        const height = this.heights[cell];
+        return new THREE.Vector3(
+            this.originX + ((cell % this.cols) + 0.5) * this.cellSize,
+            Number.isFinite(height) ? height : fallbackY,
+            this.originZ + (Math.floor(cell / this.cols) + 0.5) * this.cellSize
+        );
+    }
+
+    /** The walkable cell under a point, or the closest one within SNAP_RADIUS; -1 if none */
+    private nearestWalkable(x: number, z: number): number {
+        const col = Math.floor((x - this.originX) / this.cellSize);
+        const row = Math.floor((z - this.originZ) / this.cellSize);
+        let best = -1;
+        let bestDistance = Infinity;
+
+        for (let dr = -SNAP_RADIUS; dr <= SNAP_RADIUS; dr++) {
+            for (let dc = -SNAP_RADIUS; dc <= SNAP_RADIUS; dc++) {
+                const r = row + dr, c = col + dc;
+                if (r < 0 || c < 0 || r >= this.rows || c >= this.cols || !this.walkable[r * this.cols + c]) continue;
+                const distance = dr * dr + dc * dc;
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    best = r * this.cols + c;
+                }
+            }
+        }
+        return best;
+    }
+
+    /** A* from cell to cell; the cells along the way, or null */
+    private search(start: number, goal: number): number[] | null {
+        const cols = this.cols;
+        const size = this.walkable.length;
+        const cost = new Float32Array(size).fill(Infinity);
+        const parent = new Int32Array(size).fill(-1);
+        const closed = new Uint8Array(size);
+        const open = new MinHeap();
+
+        const goalCol = goal % cols, goalRow = Math.floor(goal / cols);
+        const estimate = (cell: number) => {
+            // Octile distance
+            const dx = Math.abs((cell % cols) - goalCol);
+            const dz = Math.abs(Math.floor(cell / cols) - goalRow);
+            return (dx + dz + (DIAGONAL - 2) * Math.min(dx, dz)) * this.cellSize;
+        };
+
+        cost[start] = 0;
+        open.push(start, estimate(start));
+
+        while (open.size > 0) {
+            const cell = open.pop();
+            if (cell === goal) break;
+            if (closed[cell]) continue;
+            closed[cell] = 1;
+
+            const col = cell % cols, row = Math.floor(cell / cols);
+            for (let dr = -1; dr <= 1; dr++) {
+                for (let dc = -1; dc <= 1; dc++) {
+                    if (dr === 0 && dc === 0) continue;
+                    const r = row + dr, c = col + dc;
+                    if (r < 0 || c < 0 || r >= this.rows || c >= cols) continue;
+                    const next = r * cols + c;
+                    if (!this.walkable[next] || closed[next]) continue;
+                    // No squeezing diagonally between two blocked cells
+                    if (dr !== 0 && dc !== 0 && (!this.walkable[row * cols + c] || !this.walkable[r * cols + col])) continue;
+
+                    const g = cost[cell] + (dr !== 0 && dc !== 0 ? DIAGONAL : 1) * this.cellSize;
+                    if (g < cost[next]) {
+                        cost[next] = g;
+                        parent[next] = cell;
+                        open.push(next, g + estimate(next));
+                    }
+                }
+            }
+        }
+
+        if (start !== goal && parent[goal] < 0) return null;
+        const cells: number[] = [];
+        for (let cell = goal; cell >= 0; cell = parent[cell]) cells.push(cell);
+        return cells.reverse();
+    }
+
+    /** Drop every cell that the previous kept one can see past (string pulling) */
+    private smooth(cells: number[]): number[] {
+        if (cells.length <= 2) return cells;
+        const kept = [cells[0]];
+        let anchor = 0;
+        for (let i = 2; i < cells.length; i++) {
+            if (!this.clearLine(cells[anchor], cells[i])) {
+                anchor = i - 1;
+                kept.push(cells[anchor]);
+            }
+        }
+        kept.push(cells[cells.length - 1]);
+        return kept;
+    }
+
+    /** Every cell on the straight line between two cell centers is walkable */
+    private clearLine(from: number, to: number): boolean {
+        const a = this.cellCenter(from, 0), b = this.cellCenter(to, 0);
+        const steps = Math.ceil(Math.hypot(b.x - a.x, b.z - a.z) / (this.cellSize * 0.25));
+        for (let s = 1; s < steps; s++) {
+            const t = s / steps;
+            const cell = this.cellAt(a.x + (b.x - a.x) * t, a.z + (b.z - a.z) * t);
+            if (cell < 0 || !this.walkable[cell]) return false;
+        }
+        return true;
+    }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/** Binary min-heap of cells by priority (A* open list) */
+class MinHeap {
+    private cells: number[] = [];
+    private priorities: number[] = [];
+
+    get size(): number {
+        return this.cells.length;
+    }
+
+    push(cell: number, priority: number) {
+        this.cells.push(cell);
+        this.priorities.push(priority);
+        let i = this.cells.length - 1;
+        while (i > 0) {
+            const up = (i - 1) >> 1;
+            if (this.priorities[up] <= this.priorities[i]) break;
+            this.swap(i, up);
+            i = up;
+        }
+    }
+
+    pop(): number {
+        const top = this.cells[0];
+        const lastCell = this.cells.pop()!;
+        const lastPriority = this.priorities.pop()!;
+        if (this.cells.length > 0) {
+            this.cells[0] = lastCell;
+            this.priorities[0] = lastPriority;
+            let i = 0;
+            for (;;) {
+                const left = 2 * i + 1, right = left + 1;
+                let smallest = i;
+                if (left < this.cells.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+                if (right < this.cells.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+                if (smallest === i) break;
+                this.swap(i, smallest);
+                i = smallest;
+            }
+        }
+        return top;
+    }
+
+    private swap(i: number, j: number) {
+        [this.cells[i], this.cells[j]] = [this.cells[j], this.cells[i]];
+        [this.priorities[i], this.priorities[j]] = [this.priorities[j], this.priorities[i]];
+    }
+}
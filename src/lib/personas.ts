@@ -0,0 +1,127 @@
+/**
+ * Simulacra Personality Engine
+ * Per-agent persona profiles: who the agent is, how it talks, what it
+ * remembers from before the simulation started and what it wants.
+ *
+ * Pure data + helpers (no Yuka / scene dependencies), so the client HUD
+ * and the server brain layers read the same profiles.
+ */
+
+import type { ContextMixer, EmotionalState } from '@/lib/context-mixer';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface PersonaGoal {
+    description: string;
+    priority: number; // 0.0 to 1.0
+}
+
+export interface Persona {
+    id: string;
+    name: string;
+    role: string;
+    traits: string[];
+    speakingStyle: string;
+    /** Memories the agent starts with (seeded into the Hippocampus archive) */
+    backstory: string[];
+    /** Seeded into the Frontal shard */
+    goals: PersonaGoal[];
+    /** Resting mood the Amygdala drifts back to */
+    baselineEmotion: EmotionalState;
+    /** Groups this agent belongs to (SQUAD_ORDER recipients); every agent is also in "all" */
+    squads: string[];
+}
+
+// =============================================================================
+// PROFILES
+// =============================================================================
+
+export const PERSONAS: Record<string, Persona> = {
+    'agent-01': {
+        id: 'agent-01',
+        name: 'Nova',
+        role: 'Social Hub greeter',
+        traits: ['curious', 'warm', 'talkative'],
+        speakingStyle: 'Upbeat and casual, short sentences, asks questions back.',
+        backstory: [
+            "I was the first robot switched on in the Social Hub.",
+            "I like showing newcomers where the sofas are.",
+            "Bolt works at the construction site and never takes breaks."
+        ],
+        goals: [
+            { description: "Welcome anyone who visits the SocialHub", priority: 0.8 },
+            { description: "Learn the names of everyone I meet", priority: 0.5 }
+        ],
+        baselineEmotion: { valence: 0.7, arousal: 0.5 },
+        squads: ['crew']
+    },
+    'agent-02': {
+        id: 'agent-02',
+        name: 'Bolt',
+        role: 'Office and construction worker',
+        traits: ['diligent', 'reserved', 'practical'],
+        speakingStyle: 'Dry and to the point, rarely more than a few words.',
+        backstory: [
+            "I was built to help with the work at the ConstructionSite.",
+            "The Office is where I go to plan the next job.",
+            "Nova talks a lot, but means well."
+        ],
+        goals: [
+            { description: "Keep the ConstructionSite running", priority: 0.8 },
+            { description: "Check in at the Office between jobs", priority: 0.4 }
+        ],
+        baselineEmotion: { valence: 0.5, arousal: 0.3 },
+        squads: ['crew']
+    }
+};
+
+/** Used for any agent id without a profile */
+export const DEFAULT_PERSONA: Omit<Persona, 'id'> = {
+    name: 'Unit',
+    role: 'Autonomous agent',
+    traits: ['curious', 'helpful'],
+    speakingStyle: 'Natural and friendly.',
+    backstory: [],
+    goals: [],
+    baselineEmotion: { valence: 0.5, arousal: 0.3 },
+    squads: []
+};
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+export function getPersona(agentId: string): Persona {
+    return PERSONAS[agentId] ?? { ...DEFAULT_PERSONA, id: agentId, name: agentId };
+}
+
+/**
+ * Render the persona as a system prompt preamble.
+ * e.g. "You are Nova, Social Hub greeter.\nPersonality: curious, warm..."
+ */
+export function describePersona(persona: Persona): string {
+    const lines = [
+        `You are ${persona.name}, ${persona.role}.`,
+        `Personality: ${persona.traits.join(', ')}.`,
+        `Speaking style: ${persona.speakingStyle}`
+    ];
+    if (persona.squads.length > 0) {
+        lines.push(`Squads: ${persona.squads.join(', ')} (you can give them a SQUAD_ORDER)`);
+    }
+    if (persona.backstory.length > 0) {
+        lines.push(`Background:\n${persona.backstory.map(b => `- ${b}`).join('\n')}`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Seed a fresh mind with the persona: backstory memories,
+ * default goals and the emotional baseline.
+ */
+export function applyPersona(mixer: ContextMixer, persona: Persona): void {
+    mixer.getHippocampus().seedArchive(persona.backstory);
+    persona.goals.forEach(goal => mixer.getFrontal().addGoal(goal.description, goal.priority));
+    mixer.getAmygdala().setBaseline(persona.baselineEmotion);
+}
@@ -30,6 +30,19 @@ export class RateLimiter {
         return false;
     }
 
+    /** Correct an earlier consumption (e.g. estimated vs. actual tokens). May go into debt. */
+    public adjust(delta: number): void {
+        this.refill();
+        this.tokens = Math.min(this.maxTokens, this.tokens - delta);
+    }
+
+    /** Milliseconds until `cost` tokens are available (0 if they already are) */
+    public getWaitTimeMs(cost: number = 1): number {
+        this.refill();
+        if (this.tokens >= cost) return 0;
+        return Math.ceil((cost - this.tokens) / this.refillRate);
+    }
+
     private refill() {
         const now = Date.now();
         const timePassed = now - this.lastRefill;
@@ -0,0 +1,171 @@
+/**
+ * Usage Ledger (Server Side)
+ * Token, latency and outcome accounting for every LLM call,
+ * aggregated per agent, per brain layer and per model.
+ *
+ * Daily budgets (per agent, in tokens) throttle an agent's brain:
+ *   OK        -> normal operation
+ *   DOWNGRADE -> past LLM_BUDGET_DOWNGRADE_AT of the budget: every layer runs on the Limbic model
+ *   PAUSED    -> budget spent: no more LLM calls until the next (UTC) day
+ *
+ * Configure with LLM_AGENT_DAILY_TOKENS (0 / unset = unlimited) and
+ * LLM_BUDGET_DOWNGRADE_AT (fraction, default 0.8), or setBudget() at runtime.
+ */
+
+import type { BrainLayer, ProviderId } from '@/lib/llm-provider';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type UsageOutcome = 'ok' | 'error';
+
+export type BudgetStatus = 'OK' | 'DOWNGRADE' | 'PAUSED';
+
+export interface UsageRecord {
+    agentId: string;
+    layer: BrainLayer;
+    model: string;
+    provider: ProviderId;
+    promptTokens: number;
+    completionTokens: number;
+    latencyMs: number;
+    outcome: UsageOutcome;
+}
+
+export interface UsageTotals {
+    calls: number;
+    errors: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalLatencyMs: number;
+}
+
+export interface UsageBudget {
+    /** Tokens per agent per day; 0 = unlimited */
+    dailyTokens: number;
+    /** Fraction of the budget after which the agent is downgraded */
+    downgradeAt: number;
+}
+
+export interface UsageReport {
+    day: string;
+    budget: UsageBudget;
+    agents: Record<string, UsageTotals & { status: BudgetStatus }>;
+    layers: Record<string, UsageTotals>;
+    models: Record<string, UsageTotals>;
+}
+
+/** Thrown instead of calling the provider when an agent's budget is spent */
+export class BudgetExceededError extends Error {
+    constructor(public readonly agentId: string) {
+        super(`Daily token budget exhausted for ${agentId}`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+// =============================================================================
+// LEDGER
+// =============================================================================
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, errors: 0, promptTokens: 0, completionTokens: 0, totalLatencyMs: 0 });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export class UsageLedger {
+    private static instance: UsageLedger;
+
+    private day: string = today();
+    private byAgent: Map<string, UsageTotals> = new Map();
+    private byLayer: Map<string, UsageTotals> = new Map();
+    private byModel: Map<string, UsageTotals> = new Map();
+    private budget: UsageBudget;
+    private agentBudgets: Map<string, number> = new Map();
+
+    private constructor(budget: UsageBudget) {
+        this.budget = budget;
+    }
+
+    static getInstance(): UsageLedger {
+        if (!UsageLedger.instance) {
+            UsageLedger.instance = new UsageLedger({
+                dailyTokens: Number(process.env.LLM_AGENT_DAILY_TOKENS) || 0,
+                downgradeAt: Number(process.env.LLM_BUDGET_DOWNGRADE_AT) || 0.8
+            });
+        }
+        return UsageLedger.instance;
+    }
+
+    record(entry: UsageRecord): void {
+        this.rollover();
+
+        for (const [map, key] of [[this.byAgent, entry.agentId], [this.byLayer, entry.layer], [this.byModel, entry.model]] as const) {
+            let totals = map.get(key);
+            if (!totals) {
+                totals = emptyTotals();
+                map.set(key, totals);
+            }
+            totals.calls++;
+            if (entry.outcome === 'error') totals.errors++;
+            totals.promptTokens += entry.promptTokens;
+            totals.completionTokens += entry.completionTokens;
+            totals.totalLatencyMs += entry.latencyMs;
+        }
+
+        const status = this.getBudgetStatus(entry.agentId);
+        if (status !== 'OK') {
+            console.warn(`[Usage] ${entry.agentId} is over budget (${status})`);
+        }
+    }
+
+    getBudgetStatus(agentId: string): BudgetStatus {
+        this.rollover();
+
+        const limit = this.agentBudgets.get(agentId) ?? this.budget.dailyTokens;
+        if (limit <= 0) return 'OK';
+
+        const totals = this.byAgent.get(agentId);
+        const used = totals ? totals.promptTokens + totals.completionTokens : 0;
+        if (used >= limit) return 'PAUSED';
+        if (used >= limit * this.budget.downgradeAt) return 'DOWNGRADE';
+        return 'OK';
+    }
+
+    /** Change the default budget, or one agent's daily token limit */
+    setBudget(budget: Partial<UsageBudget>, agentId?: string): void {
+        if (agentId) {
+            if (budget.dailyTokens !== undefined) this.agentBudgets.set(agentId, budget.dailyTokens);
+            return;
+        }
+        this.budget = { ...this.budget, ...budget };
+    }
+
+    getReport(): UsageReport {
+        this.rollover();
+
+        const agents: UsageReport['agents'] = {};
+        for (const [id, totals] of this.byAgent) {
+            agents[id] = { ...totals, status: this.getBudgetStatus(id) };
+        }
+
+        return {
+            day: this.day,
+            budget: { ...this.budget },
+            agents,
+            layers: Object.fromEntries(Array.from(this.byLayer, ([k, v]) => [k, { ...v }])),
+            models: Object.fromEntries(Array.from(this.byModel, ([k, v]) => [k, { ...v }]))
+        };
+    }
+
+    /** Budgets are daily: start a fresh ledger when the (UTC) date changes */
+    private rollover(): void {
+        const now = today();
+        if (now === this.day) return;
+
+        console.log(`[Usage] New day ${now}, resetting ledger`);
+        this.day = now;
+        this.byAgent.clear();
+        this.byLayer.clear();
+        this.byModel.clear();
+    }
+}
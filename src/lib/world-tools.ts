@@ -0,0 +1,128 @@
+/**
+ * World Tools: the Neocortex's side of the Neuro-Symbolic Bridge.
+ *
+ * Instead of guessing from a pre-baked text blob, the LLM can query the
+ * WorldRegistry / YukaOracle before committing to a command:
+ *   {"tool": "nearest_anchor", "args": {"tag": "Seat"}}
+ * Every tool returns a compact JSON string that is fed back as the next turn.
+ */
+
+import type { CapabilityParamSpec } from '@/lib/capabilities';
+import type { ContextMixer } from '@/lib/context-mixer';
+import { WorldRegistry, YukaOracle } from '@/lib/yuka-oracle';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface WorldToolCall {
+    tool: string;
+    args: Record<string, unknown>;
+}
+
+export interface WorldToolContext {
+    agentId: string;
+    mixer: ContextMixer;
+    registry: WorldRegistry;
+    oracle: YukaOracle;
+}
+
+export interface WorldTool {
+    name: string;
+    description: string;
+    params: Record<string, CapabilityParamSpec>;
+    run(args: Record<string, unknown>, ctx: WorldToolContext): unknown;
+}
+
+// =============================================================================
+// TOOLS
+// =============================================================================
+
+const round = (n: number) => Math.round(n * 10) / 10;
+
+export const WORLD_TOOLS: WorldTool[] = [
+    {
+        name: 'check_path',
+        description: "Can you reach a landmark or entity? Returns distance and ETA.",
+        params: {
+            target: { type: 'string', description: "Landmark or entity id", required: true }
+        },
+        run(args, ctx) {
+            const target = String(args.target);
+            const query = ctx.oracle.checkPath(ctx.agentId, target);
+            return { target, ...query, distance: round(query.distance), estimatedTime: round(query.estimatedTime) };
+        }
+    },
+    {
+        name: 'nearest_anchor',
+        description: "Find the closest landmark, optionally with a tag (e.g. Seat, Room, Exit, Patrol).",
+        params: {
+            tag: { type: 'string', description: "Tag filter" }
+        },
+        run(args, ctx) {
+            const position = ctx.registry.getPosition(ctx.agentId);
+            if (!position) return { error: "Your position is unknown" };
+
+            const tag = typeof args.tag === 'string' ? args.tag : undefined;
+            const anchor = ctx.registry.getNearestAnchor(position, tag ? [tag] : undefined);
+            if (!anchor) return { error: tag ? `No landmark tagged "${tag}"` : "No landmarks registered" };
+
+            return { id: anchor.id, zone: anchor.zone, tags: anchor.tags, distance: round(position.distanceTo(anchor.position)) };
+        }
+    },
+    {
+        name: 'list_zone',
+        description: "List every landmark id inside a zone.",
+        params: {
+            zone: { type: 'string', description: "Zone name", required: true }
+        },
+        run(args, ctx) {
+            const zone = String(args.zone);
+            const ids = ctx.registry.getInZone(zone);
+            if (ids.length === 0) return { error: `Unknown zone "${zone}"`, knownZones: ctx.registry.getZones() };
+            return { zone, landmarks: ids };
+        }
+    },
+    {
+        name: 'recall_memory',
+        description: "Search your memories by keywords.",
+        params: {
+            query: { type: 'string', description: "Keywords to look for", required: true }
+        },
+        run(args, ctx) {
+            const memories = ctx.mixer.getHippocampus().recall(String(args.query ?? ''));
+            return { memories: memories.map(m => m.content) };
+        }
+    }
+];
+
+// =============================================================================
+// DISPATCH
+// =============================================================================
+
+export function getWorldTool(name: string): WorldTool | undefined {
+    return WORLD_TOOLS.find(t => t.name === name);
+}
+
+/** Prompt documentation for the tool section of the Neocortex prompt */
+export function describeWorldTools(): string {
+    return WORLD_TOOLS.map(tool => {
+        const params = Object.entries(tool.params).map(([name, p]) =>
+            `${name}: ${p.type}${p.required ? ' (required)' : ''}`
+        );
+        return `- ${tool.name} {${params.join('; ')}}: ${tool.description}`;
+    }).join('\n');
+}
+
+/** Run a (validated) tool call. Failures are returned to the model, never thrown. */
+export function runWorldTool(call: WorldToolCall, ctx: WorldToolContext): string {
+    const tool = getWorldTool(call.tool);
+    if (!tool) return JSON.stringify({ error: `Unknown tool "${call.tool}"` });
+
+    try {
+        return JSON.stringify(tool.run(call.args, ctx));
+    } catch (error) {
+        console.error(`[WorldTools] ${call.tool} failed:`, error);
+        return JSON.stringify({ error: `Tool "${call.tool}" failed` });
+    }
+}
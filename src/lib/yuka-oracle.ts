@@ -7,6 +7,7 @@
  */
 
 import * as THREE from 'three';
+import type { NavMesh, NavMeshSnapshot } from './nav-mesh';
 
 // =============================================================================
 // TYPES
@@ -20,6 +21,16 @@ export interface SpatialAnchor {
     tags: string[]; // "Furniture", "Cover", "Exit"
 }
 
+/** Serializable copy of the registry, sent from client to server with each thought */
+export interface WorldSnapshot {
+    anchors: { id: string; position: { x: number; y: number; z: number }; zone: string; tags: string[] }[];
+    entities: { id: string; position: { x: number; y: number; z: number } }[];
+    /** Which NavMesh the client has, once it has built one */
+    navHash?: string;
+    /** The NavMesh itself; left out when the server already holds the one with navHash */
+    nav?: NavMeshSnapshot;
+}
+
 export interface PhysicsQuery {
     canReach: boolean;
     distance: number;
@@ -40,6 +51,9 @@ export class WorldRegistry {
 
     private anchors: Map<string, SpatialAnchor> = new Map();
     private dynamicGetters: Map<string, () => THREE.Vector3> = new Map();
+    private navMesh: NavMesh | null = null;
+    /** navMesh, encoded once per rebuild rather than on every export */
+    private navSnapshot: NavMeshSnapshot | null = null;
 
     private constructor() { }
 
@@ -66,6 +80,22 @@ export class WorldRegistry {
         this.dynamicGetters.set(id, positionGetter);
     }
 
+    /** Remove a static anchor or dynamic entity */
+    unregister(id: string): void {
+        this.anchors.delete(id);
+        this.dynamicGetters.delete(id);
+    }
+
+    /** Walkable ground for path queries (rebuilt as the scene changes) */
+    setNavMesh(navMesh: NavMesh | null): void {
+        this.navMesh = navMesh;
+        this.navSnapshot = navMesh?.exportSnapshot() ?? null;
+    }
+
+    getNavMesh(): NavMesh | null {
+        return this.navMesh;
+    }
+
     /** Get current exact position of ANY entity */
     getPosition(id: string): THREE.Vector3 | null {
         // Check dynamic first (most likely to change)
@@ -80,6 +110,11 @@ export class WorldRegistry {
         return null;
     }
 
+    /** A static landmark's details (zone, tags), or null */
+    getAnchor(id: string): SpatialAnchor | null {
+        return this.anchors.get(id) ?? null;
+    }
+
     /** Find nearest anchor to a position */
     getNearestAnchor(position: THREE.Vector3, filterTags?: string[]): SpatialAnchor | null {
         let nearest: SpatialAnchor | null = null;
@@ -105,6 +140,45 @@ export class WorldRegistry {
         }
         return results;
     }
+
+    /** Get every zone name that has at least one anchor */
+    getZones(): string[] {
+        return Array.from(new Set(Array.from(this.anchors.values()).map(a => a.zone)));
+    }
+
+    /** Capture anchors and current dynamic positions as plain data */
+    exportSnapshot(): WorldSnapshot {
+        const anchors = Array.from(this.anchors.values()).map(a => ({
+            id: a.id,
+            position: { x: a.position.x, y: a.position.y, z: a.position.z },
+            zone: a.zone,
+            tags: [...a.tags]
+        }));
+        const entities = Array.from(this.dynamicGetters.entries()).map(([id, getter]) => {
+            const p = getter();
+            return { id, position: { x: p.x, y: p.y, z: p.z } };
+        });
+        return { anchors, entities, navHash: this.navSnapshot?.hash, nav: this.navSnapshot ?? undefined };
+    }
+
+    /**
+     * A standalone mirror of a client snapshot (server side, where no scene exists),
+     * built per request so nothing lingers from earlier requests or other clients.
+     * Dynamic entities are frozen at their snapshot positions. `navMesh` is the
+     * decoded snapshot.nav, or the caller's copy of the one with snapshot.navHash.
+     */
+    static fromSnapshot(snapshot: WorldSnapshot, navMesh: NavMesh | null = null): WorldRegistry {
+        const registry = new WorldRegistry();
+        for (const a of snapshot.anchors) {
+            registry.registerStatic(a.id, new THREE.Vector3(a.position.x, a.position.y, a.position.z), a.zone, a.tags);
+        }
+        for (const e of snapshot.entities) {
+            const frozen = new THREE.Vector3(e.position.x, e.position.y, e.position.z);
+            registry.registerDynamic(e.id, () => frozen.clone());
+        }
+        registry.navMesh = navMesh;
+        return registry;
+    }
 }
 
 // =============================================================================
@@ -118,14 +192,14 @@ export class WorldRegistry {
 export class YukaOracle {
     private registry: WorldRegistry;
 
-    constructor() {
-        this.registry = WorldRegistry.getInstance();
+    constructor(registry: WorldRegistry = WorldRegistry.getInstance()) {
+        this.registry = registry;
     }
 
     /**
-     * Simulate a pathfinding request.
-     * In a real Yuka impl, this would query the NavMesh.
-     * For now, we use simple distance + connection logic.
+     * Pathfinding request: A* on the NavMesh, distance along the path.
+     * Before the NavMesh is built (scene still loading) we fall back to
+     * straight-line distance.
      */
     checkPath(startId: string, targetId: string, moveSpeed: number = 1.5): PhysicsQuery {
         const startPos = this.registry.getPosition(startId);
@@ -135,6 +209,15 @@ export class YukaOracle {
             return { canReach: false, distance: -1, estimatedTime: -1, obstacles: ["Unknown location"] };
         }
 
+        const navMesh = this.registry.getNavMesh();
+        if (navMesh) {
+            const path = navMesh.findPath(startPos, targetPos);
+            if (!path) {
+                return { canReach: false, distance: -1, estimatedTime: -1, obstacles: ["No walkable path (water or blocked)"] };
+            }
+            return { canReach: true, distance: path.length, estimatedTime: path.length / moveSpeed, obstacles: [] };
+        }
+
         const dist = startPos.distanceTo(targetPos);
 
         // Simple heuristic: If > 30m, assume "Far/maybe blocked". 
@@ -163,6 +246,8 @@ export class YukaOracle {
         // Pre-calculate nearest "interesting" things
         const nearestExit = this.registry.getNearestAnchor(agentPos, ['Exit']);
         const nearestCover = this.registry.getNearestAnchor(agentPos, ['Cover']);
+        const nearestSeat = this.registry.getNearestAnchor(agentPos, ['Seat']);
+        const nearestBox = this.registry.getNearestAnchor(agentPos, ['Carryable']);
 
         let context = `## Physical State
 - **Zone**: ${zone}
@@ -174,6 +259,12 @@ export class YukaOracle {
         if (nearestCover) {
             context += `\n- **Cover**: ${nearestCover.id} is nearby.`;
         }
+        if (nearestSeat) {
+            context += `\n- **Nearest Seat**: ${nearestSeat.id} is ${agentPos.distanceTo(nearestSeat.position).toFixed(0)}m away.`;
+        }
+        if (nearestBox) {
+            context += `\n- **Nearest Box**: ${nearestBox.id} is ${agentPos.distanceTo(nearestBox.position).toFixed(0)}m away.`;
+        }
 
         return context;
     }
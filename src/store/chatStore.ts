@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+
+export interface ChatEntry {
+    id: number;
+    agentId: string;
+    from: 'PLAYER' | 'AGENT';
+    text: string;
+    time: number;
+}
+
+interface ChatState {
+    log: ChatEntry[];
+    /** Player lines not yet picked up by the agent's brain */
+    pending: Record<string, string[]>;
+    /** Agents currently composing a reply */
+    awaiting: Record<string, boolean>;
+    /** Player says something to an agent */
+    say: (agentId: string, text: string) => void;
+    /** Next unanswered player line for the agent (removes it), or null */
+    takePending: (agentId: string) => string | null;
+    /** Agent's answer; an empty reply just clears the "typing" state */
+    addReply: (agentId: string, text: string) => void;
+}
+
+const MAX_LOG = 100;
+
+let nextId = 1;
+
+export const useChatStore = create<ChatState>((set, get) => ({
+    log: [],
+    pending: {},
+    awaiting: {},
+
+    say: (agentId, text) => set((state) => ({
+        log: [...state.log, { id: nextId++, agentId, from: 'PLAYER' as const, text, time: Date.now() }].slice(-MAX_LOG),
+        pending: { ...state.pending, [agentId]: [...(state.pending[agentId] ?? []), text] },
+        awaiting: { ...state.awaiting, [agentId]: true }
+    })),
+
+    takePending: (agentId) => {
+        const queue = get().pending[agentId];
+        if (!queue || queue.length === 0) return null;
+        set((state) => ({ pending: { ...state.pending, [agentId]: queue.slice(1) } }));
+        return queue[0];
+    },
+
+    addReply: (agentId, text) => set((state) => ({
+        log: text
+            ? [...state.log, { id: nextId++, agentId, from: 'AGENT' as const, text, time: Date.now() }].slice(-MAX_LOG)
+            : state.log,
+        awaiting: { ...state.awaiting, [agentId]: (state.pending[agentId]?.length ?? 0) > 0 }
+    })),
+}));
@@ -1,5 +1,7 @@
 import { create } from 'zustand';
 import * as THREE from 'three';
+import type { BrainLayer, ModelSelection } from '@/lib/llm-provider';
+import { listCapabilities } from '@/lib/capabilities';
 
 export interface Obstacle {
     position: THREE.Vector3;
@@ -64,9 +66,16 @@ interface GameState {
     aiSettings: {
         enabled: boolean;
         llmEnabled: boolean;
-        allowedCommands: string[];
+        /** Capabilities switched off in the AI Console; everything registered is allowed by default */
+        disabledCommands: string[];
+        /** Model per brain layer for every agent (unset = automatic routing) */
+        models: ModelSelection;
+        /** Per-agent overrides of `models` */
+        agentModels: Record<string, ModelSelection>;
     };
-    setAISetting: (settings: Partial<{ enabled: boolean; llmEnabled: boolean; allowedCommands: string[] }>) => void;
+    setAISetting: (settings: Partial<{ enabled: boolean; llmEnabled: boolean; disabledCommands: string[] }>) => void;
+    /** Pick a model for one layer, globally or for one agent. null = back to automatic / global. */
+    setModelSelection: (layer: BrainLayer, model: string | null, agentId?: string) => void;
 
     graphicsSettings: {
         quality: 'low' | 'medium' | 'high';
@@ -82,6 +91,16 @@ interface GameState {
     setGameplaySetting: (settings: Partial<{ headBob: boolean; sprintToggle: boolean }>) => void;
 }
 
+/** The models an agent should use: global picks, overridden by the agent's own */
+export function resolveModelSelection(aiSettings: GameState['aiSettings'], agentId: string): ModelSelection {
+    return { ...aiSettings.models, ...aiSettings.agentModels[agentId] };
+}
+
+/** Every registered capability the player hasn't switched off */
+export function getAllowedCommands(aiSettings: GameState['aiSettings']): string[] {
+    return listCapabilities().filter(type => !aiSettings.disabledCommands.includes(type));
+}
+
 export const useGameStore = create<GameState>((set) => ({
     debugText: '',
     setDebugText: (text) => set({ debugText: text }),
@@ -143,11 +162,28 @@ export const useGameStore = create<GameState>((set) => ({
     aiSettings: {
         enabled: true,
         llmEnabled: true,
-        allowedCommands: ['FOLLOW_ENTITY', 'NAVIGATE_TO_ANCHOR', 'NAVIGATE_TO_COORD', 'SOCIAL_INTERACT', 'HOLD_POSITION', 'IDLE']
+        // Ordering other agents around is opt-in; player menu orders aren't filtered by this
+        disabledCommands: ['SQUAD_ORDER', 'FORMATION'],
+        models: {},
+        agentModels: {}
     },
     setAISetting: (newSettings) => set((state) => ({
         aiSettings: { ...state.aiSettings, ...newSettings }
     })),
+    setModelSelection: (layer, model, agentId) => set((state) => {
+        const update = (selection: ModelSelection = {}): ModelSelection => {
+            const next = { ...selection };
+            if (model) next[layer] = model;
+            else delete next[layer];
+            return next;
+        };
+        const ai = state.aiSettings;
+        return {
+            aiSettings: agentId
+                ? { ...ai, agentModels: { ...ai.agentModels, [agentId]: update(ai.agentModels[agentId]) } }
+                : { ...ai, models: update(ai.models) }
+        };
+    }),
 
     graphicsSettings: {
         quality: 'high',
@@ -13,6 +13,9 @@ declare module 'yuka' {
         rotation: Quaternion;
         boundingRadius: number;
         velocity: Vector3;
+        maxTurnRate: number;
+        /** Turn toward target by up to maxTurnRate * delta; true once facing it */
+        rotateTo(target: Vector3, delta: number, tolerance?: number): boolean;
     }
     export class Vehicle extends GameEntity {
         maxSpeed: number;
@@ -37,6 +40,20 @@ declare module 'yuka' {
         weight: number;
     }
     export class WanderBehavior extends SteeringBehavior { }
+    export class Path {
+        loop: boolean;
+        add(waypoint: Vector3): this;
+        clear(): this;
+        current(): Vector3;
+        finished(): boolean;
+        advance(): this;
+    }
+    /** Seeks each waypoint in turn, arriving at the last */
+    export class FollowPathBehavior extends SteeringBehavior {
+        constructor(path?: Path, nextWaypointDistance?: number);
+        path: Path;
+        nextWaypointDistance: number;
+    }
     export class SeekBehavior extends SteeringBehavior {
         constructor(target: Vector3);
         target: Vector3;